@@ -1,46 +1,775 @@
 #include "driver.h"
 #include <err.h>
+#include <stdarg.h>
+#include <math.h>
 #include <stdio.h>
 #include <stdlib.h>
+#include <string.h>
+#include <time.h>
 
-void destroy_val(val_t *val) { free(val); }
+#ifndef GC_THRESHOLD
+#define GC_THRESHOLD (1 << 20)
+#endif
 
-struct val *build_cls(val_t *(*code)(val_t **, val_t *), val_t **env) {
-  struct val *ret = (struct val *)malloc(sizeof(struct val));
+/*
+ * Every value and environment lives behind an obj_t header that links it into
+ * the heap list. Collection only happens at gc_safepoint(), which generated
+ * functions call right after rooting their parameters, so allocations inside
+ * a single expression never observe a sweep.
+ */
 
-  if (!ret) {
+typedef enum { VAL_OBJ, ENV_OBJ } obj_kind;
+
+/*
+ * size counts the slots of an environment, or the bytes a value carries inline
+ * after its val_t (the characters of a string, or the fields of a tuple or
+ * constructor).
+ */
+typedef struct obj {
+  struct obj *next;
+  obj_kind kind;
+  int marked;
+  int size;
+} obj_t;
+
+static obj_t *heap = NULL;
+static size_t heap_bytes = 0;
+static size_t heap_limit = GC_THRESHOLD;
+
+static void ***roots = NULL;
+static size_t roots_len = 0;
+static size_t roots_cap = 0;
+
+static obj_t **marks = NULL;
+static size_t marks_len = 0;
+static size_t marks_cap = 0;
+
+#define HEADER(ptr) ((obj_t *)(ptr) - 1)
+
+/*
+ * A closure over no environment, which the compiler emits once as a static
+ * object instead of building it at run time. Its header is never unmarked, so
+ * the collector neither traces it nor, since it is not on the heap list,
+ * frees it.
+ */
+typedef struct {
+  obj_t header;
+  val_t val;
+} static_cls_t;
+
+#define STATIC_CLS(fn, n) {{NULL, VAL_OBJ, 1, 0}, {CLOSURE_T, .c = {.code = (fn), .env = NULL, .arity = (n)}}}
+
+static void *gc_alloc(obj_kind kind, int size, size_t bytes) {
+  obj_t *obj = (obj_t *)malloc(sizeof(obj_t) + bytes);
+
+  if (!obj) {
     err(1, "malloc error ;(");
   }
 
+  obj->next = heap;
+  obj->kind = kind;
+  obj->marked = 0;
+  obj->size = size;
+
+  heap = obj;
+  heap_bytes += sizeof(obj_t) + bytes;
+
+  return obj + 1;
+}
+
+static void gc_push(void *ptr) {
+  if (!ptr || HEADER(ptr)->marked) {
+    return;
+  }
+
+  if (marks_len == marks_cap) {
+    marks_cap = marks_cap ? marks_cap * 2 : 256;
+    marks = (obj_t **)realloc(marks, sizeof(obj_t *) * marks_cap);
+
+    if (!marks) {
+      err(1, "realloc error ;(");
+    }
+  }
+
+  HEADER(ptr)->marked = 1;
+  marks[marks_len++] = HEADER(ptr);
+}
+
+static void gc_mark(void) {
+  for (size_t i = 0; i < roots_len; i++) {
+    gc_push(*roots[i]);
+  }
+
+  while (marks_len > 0) {
+    obj_t *obj = marks[--marks_len];
+
+    if (obj->kind == ENV_OBJ) {
+      val_t **env = (val_t **)(obj + 1);
+
+      for (int i = 0; i < obj->size; i++) {
+        gc_push(env[i]);
+      }
+    } else {
+      val_t *val = (val_t *)(obj + 1);
+
+      if (val->tag == CLOSURE_T) {
+        gc_push(val->c.env);
+      } else if (val->tag == DATA_T) {
+        for (int i = 0; i < val->c.count; i++) {
+          gc_push(val->c.fields[i]);
+        }
+      }
+    }
+  }
+}
+
+static size_t gc_sweep(void) {
+  size_t live = 0;
+  obj_t **link = &heap;
+
+  while (*link) {
+    obj_t *obj = *link;
+
+    if (obj->marked) {
+      obj->marked = 0;
+      live += sizeof(obj_t) + (obj->kind == ENV_OBJ ? sizeof(val_t *) * obj->size : sizeof(val_t) + obj->size);
+      link = &obj->next;
+    } else {
+      *link = obj->next;
+      free(obj);
+    }
+  }
+
+  return live;
+}
+
+void gc_collect(void) {
+  gc_mark();
+  heap_bytes = gc_sweep();
+
+  if (heap_limit < heap_bytes * 2) {
+    heap_limit = heap_bytes * 2;
+  }
+}
+
+void gc_safepoint(void) {
+#ifdef GC_STRESS
+  gc_collect();
+#else
+  if (heap_bytes >= heap_limit) {
+    gc_collect();
+  }
+#endif
+}
+
+void gc_root(void *root) {
+  if (roots_len == roots_cap) {
+    roots_cap = roots_cap ? roots_cap * 2 : 256;
+    roots = (void ***)realloc(roots, sizeof(void **) * roots_cap);
+
+    if (!roots) {
+      err(1, "realloc error ;(");
+    }
+  }
+
+  roots[roots_len++] = (void **)root;
+}
+
+size_t gc_frame(void) { return roots_len; }
+
+val_t *gc_leave(size_t frame, val_t *val) {
+  roots_len = frame;
+  return val;
+}
+
+void destroy_val(val_t *val) {
+  obj_t **link = &heap;
+
+  while (*link && *link != HEADER(val)) {
+    link = &(*link)->next;
+  }
+
+  if (*link) {
+    *link = HEADER(val)->next;
+    heap_bytes -= sizeof(obj_t) + sizeof(val_t) + HEADER(val)->size;
+    free(HEADER(val));
+  }
+}
+
+val_t **build_env(int size, ...) {
+  if (size == 0) {
+    return NULL;
+  }
+
+  val_t **ret = (val_t **)gc_alloc(ENV_OBJ, size, sizeof(val_t *) * size);
+
+  va_list args;
+  va_start(args, size);
+
+  for (int i = 0; i < size; i++) {
+    ret[i] = va_arg(args, val_t *);
+  }
+
+  va_end(args);
+
+  return ret;
+}
+
+struct val *build_cls(val_t *(*code)(val_t **, val_t **), int arity, val_t **env) {
+  struct val *ret = (struct val *)gc_alloc(VAL_OBJ, 0, sizeof(struct val));
+
   ret->tag = CLOSURE_T;
   ret->c.code = code;
   ret->c.env = env;
+  ret->c.arity = arity;
 
   return ret;
 }
 
-struct val *build_int(int val) {
-  struct val *ret = (struct val *)malloc(sizeof(struct val));
+/*
+ * Calls follow eval/apply: a call with exactly as many arguments as the
+ * closure's arity jumps straight to its code. Anything else goes through
+ * apply_slow, which builds a partial application (a closure over pap_code
+ * whose env holds the callee followed by the arguments received so far) or
+ * splits an over-application into a saturated call plus a call on its result.
+ */
 
-  if (!ret) {
-    err(1, "malloc error ;(");
+static val_t *pap_code(val_t **env, val_t **args) {
+  val_t *fun = env[0];
+  int held = HEADER(env)->size - 1;
+  val_t *all[fun->c.arity];
+
+  for (int i = 0; i < fun->c.arity; i++) {
+    all[i] = i < held ? env[i + 1] : args[i - held];
   }
 
+  return fun->c.code(fun->c.env, all);
+}
+
+/*
+ * Programs compiled with --trampoline make their tail calls through
+ * tail_call, which parks the callee and its arguments and returns TAIL_CALL
+ * instead of calling it. Whoever made the enclosing non-tail call (apply or
+ * apply_slow) then runs the parked call from trampoline, so a chain of tail
+ * calls never grows the C stack. Nothing collects between parking a call and
+ * resuming it, so the parked values need no roots of their own.
+ */
+
+static val_t tail_marker;
+#define TAIL_CALL (&tail_marker)
+
+static val_t *tail_fun = NULL;
+static val_t **tail_args = NULL;
+static int tail_argc = 0;
+static int tail_cap = 0;
+
+static inline val_t *finish_call(val_t *ret) { return ret == TAIL_CALL ? trampoline() : ret; }
+
+static inline val_t *apply(val_t *fun, int argc, val_t **args) {
+  return finish_call(fun->c.arity == argc ? fun->c.code(fun->c.env, args) : apply_slow(fun, argc, args));
+}
+
+val_t *tail_call(val_t *fun, int argc, val_t **args) {
+  if (argc > tail_cap) {
+    tail_cap = argc;
+    tail_args = (val_t **)realloc(tail_args, sizeof(val_t *) * tail_cap);
+
+    if (!tail_args) {
+      err(1, "realloc error ;(");
+    }
+  }
+
+  for (int i = 0; i < argc; i++) {
+    tail_args[i] = args[i];
+  }
+
+  tail_fun = fun;
+  tail_argc = argc;
+
+  return TAIL_CALL;
+}
+
+val_t *trampoline(void) {
+  val_t *ret = TAIL_CALL;
+
+  while (ret == TAIL_CALL) {
+    size_t frame = gc_frame();
+    int argc = tail_argc;
+    val_t *fun = tail_fun;
+    val_t *args[argc];
+
+    gc_root(&fun);
+
+    for (int i = 0; i < argc; i++) {
+      args[i] = tail_args[i];
+      gc_root(&args[i]);
+    }
+
+    ret = fun->c.arity == argc ? fun->c.code(fun->c.env, args) : apply_slow(fun, argc, args);
+    gc_leave(frame, NULL);
+  }
+
+  return ret;
+}
+
+val_t *apply_slow(val_t *fun, int argc, val_t **args) {
+  int arity = fun->c.arity;
+
+  if (argc < arity) {
+    val_t **env = (val_t **)gc_alloc(ENV_OBJ, argc + 1, sizeof(val_t *) * (argc + 1));
+
+    env[0] = fun;
+
+    for (int i = 0; i < argc; i++) {
+      env[i + 1] = args[i];
+    }
+
+    return build_cls(pap_code, arity - argc, env);
+  }
+
+  size_t frame = gc_frame();
+  val_t *rest[argc - arity];
+
+  for (int i = 0; i < argc - arity; i++) {
+    rest[i] = args[arity + i];
+    gc_root(&rest[i]);
+  }
+
+  val_t *ret = finish_call(fun->c.code(fun->c.env, args));
+  gc_root(&ret);
+
+#ifndef UNCHECKED_CALLS
+  check_cls(ret, "a call with more arguments than its function takes");
+#endif
+
+  return gc_leave(frame, apply(ret, argc - arity, rest));
+}
+
+struct val *build_int(int val) {
+  struct val *ret = (struct val *)gc_alloc(VAL_OBJ, 0, sizeof(struct val));
+
   ret->tag = INT_T;
   ret->c.integer = val;
 
   return ret;
 }
 
-void print_val(val_t *val) {
+struct val *build_bool(int val) {
+  struct val *ret = (struct val *)gc_alloc(VAL_OBJ, 0, sizeof(struct val));
+
+  ret->tag = BOOL_T;
+  ret->c.boolean = val != 0;
+
+  return ret;
+}
+
+struct val *build_float(double val) {
+  struct val *ret = (struct val *)gc_alloc(VAL_OBJ, 0, sizeof(struct val));
+
+  ret->tag = FLOAT_T;
+  ret->c.floating = val;
+
+  return ret;
+}
+
+static struct val *alloc_str(int length) {
+  struct val *ret = (struct val *)gc_alloc(VAL_OBJ, length + 1, sizeof(struct val) + length + 1);
+
+  ret->tag = STRING_T;
+  ret->c.chars = (char *)(ret + 1);
+  ret->c.length = length;
+  ret->c.chars[length] = '\0';
+
+  return ret;
+}
+
+struct val *build_str(const char *chars, int length) {
+  struct val *ret = alloc_str(length);
+  memcpy(ret->c.chars, chars, length);
+
+  return ret;
+}
+
+/* Tuples are built with no constructor name and tag 0. */
+struct val *build_data(const char *ctor_name, int ctor, int count, ...) {
+  size_t bytes = sizeof(val_t *) * count;
+  struct val *ret = (struct val *)gc_alloc(VAL_OBJ, bytes, sizeof(struct val) + bytes);
+
+  ret->tag = DATA_T;
+  ret->c.ctor_name = ctor_name;
+  ret->c.ctor = ctor;
+  ret->c.count = count;
+  ret->c.fields = (val_t **)(ret + 1);
+
+  va_list args;
+  va_start(args, count);
+
+  for (int i = 0; i < count; i++) {
+    ret->c.fields[i] = va_arg(args, val_t *);
+  }
+
+  va_end(args);
+
+  return ret;
+}
+
+val_t *match_fail(void) { errx(1, "runtime error: no pattern matched"); }
+
+int test_bool(val_t *val) {
+  if (val->tag != BOOL_T) {
+    errx(1, "type error: condition expects a boolean");
+  }
+
+  return val->c.boolean;
+}
+
+static const char *show_kind(val_t *val) {
+  if (!val) {
+    return "a null value";
+  }
+
+  switch (val->tag) {
+  case CLOSURE_T:
+    return "a closure";
+  case INT_T:
+    return "an integer";
+  case BOOL_T:
+    return "a boolean";
+  case FLOAT_T:
+    return "a float";
+  case STRING_T:
+    return "a string";
+  case DATA_T:
+    return val->c.ctor_name ? "a constructor value" : "a tuple";
+  }
+
+  return "an unknown value";
+}
+
+/*
+ * Generated code passes the callee of every call it cannot prove is a closure
+ * through check_cls, along with the call's source text and position, unless
+ * it was compiled with --release, which also defines UNCHECKED_CALLS. Reading
+ * the code pointer of anything else would jump to garbage, so this error
+ * exits with a status of its own.
+ */
+val_t *check_cls(val_t *fun, const char *site) {
+  if (!fun || fun->tag != CLOSURE_T) {
+    errx(APPLY_ERROR, "type error: cannot apply %s, in %s", show_kind(fun), site);
+  }
+
+  return fun;
+}
+
+/*
+ * Operators work on two operands of the same type. The typechecker already
+ * rules out mismatches, so these errors only guard against runtime bugs.
+ */
+
+static val_tag expect_same(val_t *lhs, val_t *rhs, const char *op) {
+  if (lhs->tag != rhs->tag) {
+    errx(1, "type error: operator %s expects operands of the same type", op);
+  }
+
+  return lhs->tag;
+}
+
+static void unsupported(const char *op) { errx(1, "type error: operator %s does not apply to these operands", op); }
+
+static int compare_str(val_t *lhs, val_t *rhs) {
+  int length = lhs->c.length < rhs->c.length ? lhs->c.length : rhs->c.length;
+  int order = memcmp(lhs->c.chars, rhs->c.chars, length);
+
+  return order != 0 ? order : lhs->c.length - rhs->c.length;
+}
+
+/*
+ * Integers wrap around on overflow, as in the interpreter: the arithmetic is
+ * done on unsigned values, where it is defined, and converted back. Dividing
+ * INT_MIN by -1 wraps to INT_MIN instead of trapping.
+ */
+#define WRAP(op, lhs, rhs) ((int)((unsigned)(lhs)op(unsigned)(rhs)))
+
+val_t *prim_add(val_t *lhs, val_t *rhs) {
+  switch (expect_same(lhs, rhs, "+")) {
+  case INT_T:
+    return build_int(WRAP(+, lhs->c.integer, rhs->c.integer));
+  case FLOAT_T:
+    return build_float(lhs->c.floating + rhs->c.floating);
+  case STRING_T: {
+    val_t *ret = alloc_str(lhs->c.length + rhs->c.length);
+
+    memcpy(ret->c.chars, lhs->c.chars, lhs->c.length);
+    memcpy(ret->c.chars + lhs->c.length, rhs->c.chars, rhs->c.length);
+
+    return ret;
+  }
+  default:
+    unsupported("+");
+    return NULL;
+  }
+}
+
+val_t *prim_sub(val_t *lhs, val_t *rhs) {
+  switch (expect_same(lhs, rhs, "-")) {
+  case INT_T:
+    return build_int(WRAP(-, lhs->c.integer, rhs->c.integer));
+  case FLOAT_T:
+    return build_float(lhs->c.floating - rhs->c.floating);
+  default:
+    unsupported("-");
+    return NULL;
+  }
+}
+
+val_t *prim_mul(val_t *lhs, val_t *rhs) {
+  switch (expect_same(lhs, rhs, "*")) {
+  case INT_T:
+    return build_int(WRAP(*, lhs->c.integer, rhs->c.integer));
+  case FLOAT_T:
+    return build_float(lhs->c.floating * rhs->c.floating);
+  default:
+    unsupported("*");
+    return NULL;
+  }
+}
+
+val_t *prim_div(val_t *lhs, val_t *rhs) {
+  switch (expect_same(lhs, rhs, "/")) {
+  case INT_T:
+    if (rhs->c.integer == 0) {
+      errx(1, "runtime error: division by zero");
+    }
+
+    if (rhs->c.integer == -1) {
+      return build_int(WRAP(-, 0, lhs->c.integer));
+    }
+
+    return build_int(lhs->c.integer / rhs->c.integer);
+  case FLOAT_T:
+    return build_float(lhs->c.floating / rhs->c.floating);
+  default:
+    unsupported("/");
+    return NULL;
+  }
+}
+
+val_t *prim_lt(val_t *lhs, val_t *rhs) {
+  switch (expect_same(lhs, rhs, "<")) {
+  case INT_T:
+    return build_bool(lhs->c.integer < rhs->c.integer);
+  case FLOAT_T:
+    return build_bool(lhs->c.floating < rhs->c.floating);
+  case STRING_T:
+    return build_bool(compare_str(lhs, rhs) < 0);
+  default:
+    unsupported("<");
+    return NULL;
+  }
+}
+
+val_t *prim_eq(val_t *lhs, val_t *rhs) {
+  switch (expect_same(lhs, rhs, "==")) {
+  case INT_T:
+    return build_bool(lhs->c.integer == rhs->c.integer);
+  case FLOAT_T:
+    return build_bool(lhs->c.floating == rhs->c.floating);
+  case BOOL_T:
+    return build_bool(lhs->c.boolean == rhs->c.boolean);
+  case STRING_T:
+    return build_bool(compare_str(lhs, rhs) == 0);
+  default:
+    unsupported("==");
+    return NULL;
+  }
+}
+
+val_t *prim_neg(val_t *val) {
+  switch (val->tag) {
+  case INT_T:
+    return build_int(WRAP(-, 0, val->c.integer));
+  case FLOAT_T:
+    return build_float(-val->c.floating);
+  default:
+    unsupported("-");
+    return NULL;
+  }
+}
+
+/*
+ * Prints the shortest digits that read back as the same double, in fixed
+ * notation within [1e-4, 1e17) and with an exponent outside it, always with a
+ * '.' or an exponent so floats never look like integers. showFloat in the
+ * compiler mirrors this for the interpreter.
+ */
+static void print_float(double val) {
+  char buf[64];
+  int digits;
+
+  if (isnan(val)) {
+    printf("nan");
+    return;
+  }
+
+  if (isinf(val)) {
+    printf("%s", val > 0 ? "inf" : "-inf");
+    return;
+  }
+
+  for (digits = 1; digits < 17; digits++) {
+    snprintf(buf, sizeof(buf), "%.*e", digits - 1, val);
+
+    if (strtod(buf, NULL) == val) {
+      break;
+    }
+  }
+
+  snprintf(buf, sizeof(buf), "%.*e", digits - 1, val);
+  int power = atoi(strchr(buf, 'e') + 1);
+
+  if (power >= -4 && power < 17) {
+    int decimals = digits - 1 - power;
+    snprintf(buf, sizeof(buf), "%.*f", decimals > 0 ? decimals : 0, val);
+  }
+
+  printf("%s%s", buf, strpbrk(buf, ".e") ? "" : ".0");
+}
+
+/* Quotes a string the way JSON.stringify does, for strings inside data. */
+static void print_quoted(val_t *val) {
+  putchar('"');
+
+  for (int i = 0; i < val->c.length; i++) {
+    unsigned char c = (unsigned char)val->c.chars[i];
+
+    switch (c) {
+    case '"':
+      printf("\\\"");
+      break;
+    case '\\':
+      printf("\\\\");
+      break;
+    case '\b':
+      printf("\\b");
+      break;
+    case '\f':
+      printf("\\f");
+      break;
+    case '\n':
+      printf("\\n");
+      break;
+    case '\r':
+      printf("\\r");
+      break;
+    case '\t':
+      printf("\\t");
+      break;
+    default:
+      if (c < 0x20) {
+        printf("\\u%04x", c);
+      } else {
+        putchar(c);
+      }
+    }
+  }
+
+  putchar('"');
+}
+
+static void show_val(val_t *val, int nested) {
   switch (val->tag) {
   case CLOSURE_T:
-    printf("<#closure>\n");
+    printf("<#closure>");
     break;
   case INT_T:
-    printf("%d\n", val->c.integer);
+    printf("%d", val->c.integer);
+    break;
+  case BOOL_T:
+    printf("%s", val->c.boolean ? "true" : "false");
+    break;
+  case FLOAT_T:
+    print_float(val->c.floating);
+    break;
+  case STRING_T:
+    if (nested) {
+      print_quoted(val);
+    } else {
+      fwrite(val->c.chars, 1, val->c.length, stdout);
+    }
+    break;
+  case DATA_T:
+    if (val->c.ctor_name) {
+      printf("%s", val->c.ctor_name);
+    }
+
+    if (!val->c.ctor_name || val->c.count > 0) {
+      putchar('(');
+
+      for (int i = 0; i < val->c.count; i++) {
+        if (i > 0) {
+          printf(", ");
+        }
+
+        show_val(val->c.fields[i], 1);
+      }
+
+      putchar(')');
+    }
     break;
   default:
     return;
   }
-}
\ No newline at end of file
+}
+
+void print_val(val_t *val) {
+  show_val(val, 0);
+  putchar('\n');
+}
+
+/*
+ * Foreign functions for `extern` declarations take and return one val_t per
+ * argument. The typechecker knows only their arity, so they check the tags of
+ * their arguments themselves. A function in an extra .c file given to the
+ * compiler can be declared extern the same way. ffi_clock ignores its
+ * argument, since every call passes at least one.
+ */
+
+static val_t *expect_tag(val_t *val, val_tag tag, const char *name) {
+  if (val->tag != tag) {
+    errx(1, "type error: %s got an argument of the wrong type", name);
+  }
+
+  return val;
+}
+
+val_t *ffi_print(val_t *val) {
+  print_val(val);
+  return val;
+}
+
+val_t *ffi_clock(val_t *unit) {
+  (void)unit;
+  return build_float((double)clock() / CLOCKS_PER_SEC);
+}
+
+val_t *ffi_sqrt(val_t *val) { return build_float(sqrt(expect_tag(val, FLOAT_T, "ffi_sqrt")->c.floating)); }
+
+val_t *ffi_pow(val_t *base, val_t *power) {
+  double lhs = expect_tag(base, FLOAT_T, "ffi_pow")->c.floating;
+  double rhs = expect_tag(power, FLOAT_T, "ffi_pow")->c.floating;
+
+  return build_float(pow(lhs, rhs));
+}
+
+val_t *ffi_floor(val_t *val) { return build_float(floor(expect_tag(val, FLOAT_T, "ffi_floor")->c.floating)); }
+
+val_t *ffi_float_of_int(val_t *val) { return build_float(expect_tag(val, INT_T, "ffi_float_of_int")->c.integer); }
+
+val_t *ffi_int_of_float(val_t *val) { return build_int((int)expect_tag(val, FLOAT_T, "ffi_int_of_float")->c.floating); }
+
+val_t *ffi_string_of_int(val_t *val) {
+  char buf[16];
+  int length = snprintf(buf, sizeof(buf), "%d", expect_tag(val, INT_T, "ffi_string_of_int")->c.integer);
+
+  return build_str(buf, length);
+}
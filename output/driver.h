@@ -1,23 +1,78 @@
 #ifndef VAL_H
 #define VAL_H
 
-typedef enum { CLOSURE_T, INT_T } val_tag;
+#include <stddef.h>
+
+typedef enum { CLOSURE_T, INT_T, BOOL_T, FLOAT_T, STRING_T, DATA_T } val_tag;
 
 typedef struct val {
   val_tag tag;
   union {
     struct {
-      struct val *(*code)(struct val **, struct val *);
+      struct val *(*code)(struct val **, struct val **);
       struct val **env;
+      int arity;
+    };
+    struct {
+      char *chars;
+      int length;
+    };
+    struct {
+      const char *ctor_name;
+      int ctor;
+      int count;
+      struct val **fields;
     };
     int integer;
+    int boolean;
+    double floating;
   } c;
 } val_t;
 
-val_t *build_cls(val_t *(*code)(val_t **, val_t *), val_t **env);
+val_t *build_cls(val_t *(*code)(val_t **, val_t **), int arity, val_t **env);
+val_t **build_env(int size, ...);
 val_t *build_int(int val);
+val_t *build_bool(int val);
+val_t *build_float(double val);
+val_t *build_str(const char *chars, int length);
+val_t *build_data(const char *ctor_name, int ctor, int count, ...);
+val_t *match_fail(void);
+
+int test_bool(val_t *val);
+
+/* The exit status of applying a value that is not a closure. */
+#define APPLY_ERROR 3
+
+val_t *check_cls(val_t *fun, const char *site);
+
+val_t *apply_slow(val_t *fun, int argc, val_t **args);
+val_t *tail_call(val_t *fun, int argc, val_t **args);
+val_t *trampoline(void);
+
+val_t *prim_add(val_t *lhs, val_t *rhs);
+val_t *prim_sub(val_t *lhs, val_t *rhs);
+val_t *prim_mul(val_t *lhs, val_t *rhs);
+val_t *prim_div(val_t *lhs, val_t *rhs);
+val_t *prim_lt(val_t *lhs, val_t *rhs);
+val_t *prim_eq(val_t *lhs, val_t *rhs);
+val_t *prim_neg(val_t *val);
+
+void gc_collect(void);
+void gc_safepoint(void);
+void gc_root(void *root);
+size_t gc_frame(void);
+val_t *gc_leave(size_t frame, val_t *val);
 
 void destroy_val(val_t *val);
 void print_val(val_t *val);
 
+val_t *ffi_print(val_t *val);
+val_t *ffi_clock(val_t *unit);
+val_t *ffi_sqrt(val_t *val);
+val_t *ffi_pow(val_t *base, val_t *power);
+val_t *ffi_floor(val_t *val);
+val_t *ffi_float_of_int(val_t *val);
+val_t *ffi_int_of_float(val_t *val);
+val_t *ffi_string_of_int(val_t *val);
+
 #endif /* VAL_H */
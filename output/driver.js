@@ -0,0 +1,349 @@
+"use strict";
+
+/*
+ * The runtime of the JavaScript backend, which prepends it to every module it
+ * writes so that the module runs on its own under node. It mirrors driver.c:
+ * the same values, calling convention, primitives and printing, with the
+ * same messages and exit status for runtime errors. Values carry their own
+ * tag, since integers and floats are both numbers here. There is no collector
+ * to drive, so none of the gc_* calls have a counterpart.
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const CLOSURE_T = 0;
+const INT_T = 1;
+const BOOL_T = 2;
+const FLOAT_T = 3;
+const STRING_T = 4;
+const DATA_T = 5;
+
+/*
+ * Output goes straight to the file descriptor, so that nothing is lost when a
+ * runtime error exits the process with writes still pending.
+ */
+const write_fd = (fd, text) => {
+  const buf = Buffer.from(text, "utf8");
+  let offset = 0;
+
+  while (offset < buf.length) {
+    try {
+      offset += fs.writeSync(fd, buf, offset);
+    } catch (error) {
+      if (error.code !== "EAGAIN") {
+        throw error;
+      }
+    }
+  }
+};
+
+const errx = (message, status = 1) => {
+  write_fd(2, `${path.basename(process.argv[1] || "main", ".js")}: ${message}\n`);
+  process.exit(status);
+};
+
+const build_cls = (code, arity, env) => ({ tag: CLOSURE_T, code, arity, env });
+const build_int = (val) => ({ tag: INT_T, integer: val | 0 });
+const build_bool = (val) => ({ tag: BOOL_T, boolean: val });
+const build_float = (val) => ({ tag: FLOAT_T, floating: val });
+const build_str = (chars) => ({ tag: STRING_T, chars });
+const build_data = (ctor_name, ctor, fields) => ({ tag: DATA_T, ctor_name, ctor, fields });
+
+const match_fail = () => errx("runtime error: no pattern matched");
+
+const test_bool = (val) => {
+  if (val.tag !== BOOL_T) {
+    errx("type error: condition expects a boolean");
+  }
+
+  return val.boolean;
+};
+
+/* The exit status of applying a value that is not a closure, as in driver.h. */
+const APPLY_ERROR = 3;
+
+const show_kind = (val) => {
+  switch (val?.tag) {
+    case CLOSURE_T:
+      return "a closure";
+    case INT_T:
+      return "an integer";
+    case BOOL_T:
+      return "a boolean";
+    case FLOAT_T:
+      return "a float";
+    case STRING_T:
+      return "a string";
+    case DATA_T:
+      return val.ctor_name === null ? "a tuple" : "a constructor value";
+    default:
+      return "a null value";
+  }
+};
+
+/* apply and tail_call check the callee themselves, so the error cannot name the call. */
+const check_cls = (fun) => {
+  if (fun?.tag !== CLOSURE_T) {
+    errx(`type error: cannot apply ${show_kind(fun)}`, APPLY_ERROR);
+  }
+
+  return fun;
+};
+
+/*
+ * Calls follow eval/apply, as in driver.c: a saturated call jumps straight to
+ * the closure's code, while apply_slow builds a partial application (a
+ * closure over pap_code whose env holds the callee followed by the arguments
+ * received so far) or splits an over-application in two.
+ */
+
+const pap_code = (env, args) => {
+  const fun = env[0];
+  return fun.code(fun.env, [...env.slice(1), ...args]);
+};
+
+/*
+ * Tail calls compiled with --trampoline park the callee and its arguments and
+ * return TAIL_CALL, and whoever made the enclosing non-tail call runs them
+ * from trampoline, so a chain of tail calls never grows the JavaScript stack.
+ */
+
+const TAIL_CALL = {};
+
+let tail_fun = null;
+let tail_args = [];
+
+const tail_call = (fun, args) => {
+  tail_fun = check_cls(fun);
+  tail_args = args;
+
+  return TAIL_CALL;
+};
+
+const trampoline = () => {
+  let ret = TAIL_CALL;
+
+  while (ret === TAIL_CALL) {
+    const fun = tail_fun;
+    const args = tail_args;
+
+    ret = fun.arity === args.length ? fun.code(fun.env, args) : apply_slow(fun, args);
+  }
+
+  return ret;
+};
+
+const finish_call = (ret) => (ret === TAIL_CALL ? trampoline() : ret);
+
+const apply = (fun, args) => {
+  check_cls(fun);
+  return finish_call(fun.arity === args.length ? fun.code(fun.env, args) : apply_slow(fun, args));
+};
+
+const apply_slow = (fun, args) => {
+  const arity = fun.arity;
+
+  if (args.length < arity) {
+    return build_cls(pap_code, arity - args.length, [fun, ...args]);
+  }
+
+  const ret = finish_call(fun.code(fun.env, args.slice(0, arity)));
+  return apply(ret, args.slice(arity));
+};
+
+const expect_same = (lhs, rhs, op) => {
+  if (lhs.tag !== rhs.tag) {
+    errx(`type error: operator ${op} expects operands of the same type`);
+  }
+
+  return lhs.tag;
+};
+
+const unsupported = (op) => errx(`type error: operator ${op} does not apply to these operands`);
+
+/* Strings compare by their UTF-8 bytes, like memcmp in driver.c. */
+const compare_str = (lhs, rhs) => Buffer.compare(Buffer.from(lhs.chars, "utf8"), Buffer.from(rhs.chars, "utf8"));
+
+const prim_add = (lhs, rhs) => {
+  switch (expect_same(lhs, rhs, "+")) {
+    case INT_T:
+      return build_int(lhs.integer + rhs.integer);
+    case FLOAT_T:
+      return build_float(lhs.floating + rhs.floating);
+    case STRING_T:
+      return build_str(lhs.chars + rhs.chars);
+    default:
+      return unsupported("+");
+  }
+};
+
+const prim_sub = (lhs, rhs) => {
+  switch (expect_same(lhs, rhs, "-")) {
+    case INT_T:
+      return build_int(lhs.integer - rhs.integer);
+    case FLOAT_T:
+      return build_float(lhs.floating - rhs.floating);
+    default:
+      return unsupported("-");
+  }
+};
+
+const prim_mul = (lhs, rhs) => {
+  switch (expect_same(lhs, rhs, "*")) {
+    case INT_T:
+      return build_int(Math.imul(lhs.integer, rhs.integer));
+    case FLOAT_T:
+      return build_float(lhs.floating * rhs.floating);
+    default:
+      return unsupported("*");
+  }
+};
+
+const prim_div = (lhs, rhs) => {
+  switch (expect_same(lhs, rhs, "/")) {
+    case INT_T:
+      if (rhs.integer === 0) {
+        errx("runtime error: division by zero");
+      }
+      return build_int(Math.trunc(lhs.integer / rhs.integer));
+    case FLOAT_T:
+      return build_float(lhs.floating / rhs.floating);
+    default:
+      return unsupported("/");
+  }
+};
+
+const prim_lt = (lhs, rhs) => {
+  switch (expect_same(lhs, rhs, "<")) {
+    case INT_T:
+      return build_bool(lhs.integer < rhs.integer);
+    case FLOAT_T:
+      return build_bool(lhs.floating < rhs.floating);
+    case STRING_T:
+      return build_bool(compare_str(lhs, rhs) < 0);
+    default:
+      return unsupported("<");
+  }
+};
+
+const prim_eq = (lhs, rhs) => {
+  switch (expect_same(lhs, rhs, "==")) {
+    case INT_T:
+      return build_bool(lhs.integer === rhs.integer);
+    case FLOAT_T:
+      return build_bool(lhs.floating === rhs.floating);
+    case BOOL_T:
+      return build_bool(lhs.boolean === rhs.boolean);
+    case STRING_T:
+      return build_bool(lhs.chars === rhs.chars);
+    default:
+      return unsupported("==");
+  }
+};
+
+const prim_neg = (val) => {
+  switch (val.tag) {
+    case INT_T:
+      return build_int(-val.integer);
+    case FLOAT_T:
+      return build_float(-val.floating);
+    default:
+      return unsupported("-");
+  }
+};
+
+/*
+ * The shortest digits that read back as the same double, in fixed notation
+ * within [1e-4, 1e17) and with a two-digit exponent outside it, always with a
+ * '.' or an exponent, exactly as print_float prints them.
+ */
+const show_float = (val) => {
+  if (Number.isNaN(val)) {
+    return "nan";
+  }
+
+  if (!Number.isFinite(val)) {
+    return val > 0 ? "inf" : "-inf";
+  }
+
+  const sign = val < 0 || Object.is(val, -0) ? "-" : "";
+  const abs = Math.abs(val);
+  let digits = 1;
+
+  while (digits < 17 && Number(abs.toExponential(digits - 1)) !== abs) {
+    digits++;
+  }
+
+  const [mantissa, exponent] = abs.toExponential(digits - 1).split("e");
+  const power = Number(exponent);
+
+  if (power >= -4 && power < 17) {
+    const shown = abs.toFixed(Math.max(0, digits - 1 - power));
+    return `${sign}${shown}${shown.includes(".") ? "" : ".0"}`;
+  }
+
+  return `${sign}${mantissa}e${power < 0 ? "-" : "+"}${`${Math.abs(power)}`.padStart(2, "0")}`;
+};
+
+/* Strings inside a tuple or constructor are quoted the way print_quoted does. */
+const show_val = (val, nested) => {
+  switch (val.tag) {
+    case CLOSURE_T:
+      return "<#closure>";
+    case INT_T:
+      return `${val.integer}`;
+    case BOOL_T:
+      return val.boolean ? "true" : "false";
+    case FLOAT_T:
+      return show_float(val.floating);
+    case STRING_T:
+      return nested ? JSON.stringify(val.chars) : val.chars;
+    case DATA_T: {
+      const fields = val.fields.map((field) => show_val(field, true));
+
+      if (val.ctor_name === null) {
+        return `(${fields.join(", ")})`;
+      }
+
+      return fields.length === 0 ? val.ctor_name : `${val.ctor_name}(${fields.join(", ")})`;
+    }
+    default:
+      return "";
+  }
+};
+
+const print_val = (val) => write_fd(1, `${show_val(val, false)}\n`);
+
+/*
+ * The ffi_* functions of driver.c, which `extern` declarations bind through
+ * foreign. An extern naming any other C function fails when it is called.
+ */
+
+const expect_tag = (val, tag, name) => {
+  if (val.tag !== tag) {
+    errx(`type error: ${name} got an argument of the wrong type`);
+  }
+
+  return val;
+};
+
+const ffi = {
+  ffi_print: (val) => {
+    print_val(val);
+    return val;
+  },
+  ffi_clock: () => build_float(process.cpuUsage().user / 1e6),
+  ffi_sqrt: (val) => build_float(Math.sqrt(expect_tag(val, FLOAT_T, "ffi_sqrt").floating)),
+  ffi_pow: (base, power) =>
+    build_float(
+      Math.pow(expect_tag(base, FLOAT_T, "ffi_pow").floating, expect_tag(power, FLOAT_T, "ffi_pow").floating)
+    ),
+  ffi_floor: (val) => build_float(Math.floor(expect_tag(val, FLOAT_T, "ffi_floor").floating)),
+  ffi_float_of_int: (val) => build_float(expect_tag(val, INT_T, "ffi_float_of_int").integer),
+  ffi_int_of_float: (val) => build_int(Math.trunc(expect_tag(val, FLOAT_T, "ffi_int_of_float").floating)),
+  ffi_string_of_int: (val) => build_str(`${expect_tag(val, INT_T, "ffi_string_of_int").integer}`),
+};
+
+const foreign = (symbol) =>
+  ffi[symbol] ?? (() => errx(`runtime error: extern "${symbol}" is not available in the JavaScript runtime`));
@@ -0,0 +1,554 @@
+import { promisify } from "util";
+import { promises } from "fs";
+import { execFile, spawn } from "child_process";
+import path from "path";
+import os from "os";
+
+import { Pair } from "./lib/pair";
+import { Error as GenericError } from "./lib/error";
+import { Diagnostic, DiagnosticType } from "./lib/diagnostic";
+import { Tree, show, showFloat, showT } from "./syntax";
+import { Token, scanner } from "./parser";
+import { link } from "./link";
+import { resolve } from "./resolve";
+import { typecheck } from "./typecheck";
+import { Host, Value, interpret, showV } from "./interpret";
+import { Renaming } from "./rename";
+import { Code, Prog } from "./closure";
+import { Pass, makePassManager, passOrder, runPasses, showProg } from "./passes";
+import { Debug, codegenProg, debugMap } from "./codegen";
+import { jsgenProg } from "./jsgen";
+import { compileBytecode, disassemble, execute, showCounts } from "./vm";
+
+const writeOutput = async (file: string, code: string) => {
+  const dirPath = path.dirname(file);
+
+  try {
+    await promises.access(dirPath);
+  } catch (error) {
+    await promises.mkdir(dirPath, { recursive: true });
+  }
+
+  await promises.writeFile(file, code);
+};
+
+const runtimeDir = path.join(__dirname, "..", "output");
+
+// A standalone module: the driver.js runtime followed by the program.
+const jsModule = async (prog: Prog): Promise<Code> => {
+  const runtime = await promises.readFile(path.join(runtimeDir, "driver.js"), "utf8");
+  return [runtime, jsgenProg(prog)].join("\n");
+};
+
+// Extra sources are compiled and linked alongside the program, for the C side
+// of its extern declarations; link flags come last so libraries resolve.
+const gccArgs = (outPath: string, sources: string[] = [], linkFlags: string[] = [], debug = false): string[] => {
+  const flags = debug ? ["-g"] : [];
+  return [...flags, "-I", runtimeDir, "-o", outPath, `${outPath}.c`, ...sources, ...linkFlags, "-lm"];
+};
+
+const promiseExec = promisify(execFile);
+const compileMain = async (outPath: string, sources: string[] = [], linkFlags: string[] = [], debug = false) => {
+  try {
+    const { stdout } = await promiseExec("gcc", gccArgs(outPath, sources, linkFlags, debug));
+    console.log(`C file (${outPath}) compiled successfully: ${stdout}`);
+  } catch (error) {
+    process.stderr.write((error as { stderr?: string }).stderr ?? "");
+    throw new Error(`gcc failed to compile ${outPath}.c`);
+  }
+};
+
+// How to run the program compiled to `outPath` for a target.
+const runCommand = (target: Target, outPath: string): Pair<string, string[]> => {
+  return target === "js" ? [process.execPath, [`${outPath}.js`]] : [outPath, []];
+};
+
+const runMain = (target: Target, outPath: string): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    const [command, args] = runCommand(target, outPath);
+    const child = spawn(command, args, { stdio: "inherit" });
+
+    child.on("error", reject);
+    child.on("close", (code, signal) => {
+      resolve(code ?? 128 + (signal ? os.constants.signals[signal] : 0));
+    });
+  });
+};
+
+// Command line
+
+type Emit = "tokens" | "ast" | "type" | "closure" | "c" | "js" | "bytecode";
+type Target = "c" | "js" | "vm";
+
+interface Options {
+  inputs: string[];
+  output: string;
+  emit: Emit | null;
+  target: Target;
+  run: boolean;
+  interpret: boolean;
+  diff: boolean;
+  trampoline: boolean;
+  passes: Pass[];
+  dumpPasses: boolean;
+  sources: string[];
+  linkFlags: string[];
+  repl: boolean;
+  count: boolean;
+  debug: boolean;
+  release: boolean;
+}
+
+const usage = `usage: weird-c [file | -] [-o <output>] [--emit=tokens|ast|type|closure|c|js|bytecode]
+               [--target=c|js|vm] [--run | --interpret] [--count] [-g] [--release]
+               [--trampoline] [-O | --passes=<pass>,...] [--dump-passes]
+               [<source>.c | <object>.o ...] [-l<library> | -L<directory> ...]
+       weird-c --diff [--target=c|js|vm] [--trampoline] [-O | --passes=<pass>,...] <file | directory>...
+       weird-c --repl [--trampoline] [-O | --passes=<pass>,...]
+
+Compiles a program to a native binary through gcc, or to a JavaScript module
+for node. Reads the program from stdin when no file (or "-") is given.
+
+  -o <output>     path of the binary, next to its <output>.c (default: output/main)
+  --emit=<stage>  print the tokens, tree, inferred type, closure IR, C code,
+                  JavaScript code or disassembled bytecode and stop
+  --target=js     write a standalone JavaScript module to <output>.js instead
+                  of compiling to C; --run runs it with node
+  --target=vm     compile to bytecode and run it at once on the built-in
+                  virtual machine, without writing any file
+  --count         with --target=vm, print how many instructions of each kind
+                  ran to stderr
+  -g              build the binary with debug info: #line directives pointing
+                  gcc and gdb at the source, and <output>.debug.json mapping
+                  each C identifier to the source name and site it stands for
+  --release       leave out the check that the callee of every call is a
+                  closure; a checked call to anything else exits with status 3
+                  and names the call in the source
+  --run           run the binary after compiling it and exit with its status
+  --interpret     evaluate the program with the reference interpreter instead
+  --trampoline    compile calls in tail position through a trampoline, so tail
+                  recursion runs in constant C stack space
+  -O              optimize the closure IR with every pass
+  --passes=<list> optimize with only the given passes, out of fold (constant
+                  folding), copy (copy propagation), inline (inlining closures
+                  called once), direct (direct calls to known closures) and
+                  dead (dead binding and code elimination)
+  --dump-passes   print the closure IR before and after every pass that changes it
+  <source>.c      compile and link a C file (or .o/.a object) with the program,
+                  for the functions its extern declarations name
+  -l<library>     link against a library; -L<directory> adds a search path
+  --diff          run every .wc program through both the interpreter and the
+                  compiled binary (or module, or virtual machine, with
+                  --target), reporting any difference in their output
+  --repl          read definitions and expressions line by line, evaluating
+                  each with the interpreter; :ast, :closure, :c, :js or
+                  :bytecode before an input shows its tree, closure IR, C code,
+                  JavaScript code or bytecode instead`;
+
+const emits: Emit[] = ["tokens", "ast", "type", "closure", "c", "js", "bytecode"];
+const targets: Target[] = ["c", "js", "vm"];
+
+const parseArgs = (argv: string[]): Options => {
+  const options: Options = {
+    inputs: [],
+    output: path.join(process.cwd(), "output", "main"),
+    emit: null,
+    target: "c",
+    run: false,
+    interpret: false,
+    diff: false,
+    trampoline: false,
+    passes: [],
+    dumpPasses: false,
+    sources: [],
+    linkFlags: [],
+    repl: false,
+    count: false,
+    debug: false,
+    release: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === "-o") {
+      const output = argv[++i];
+
+      if (output === undefined) {
+        throw new Error("missing path after -o");
+      }
+
+      options.output = path.resolve(output);
+    } else if (arg.startsWith("--emit=")) {
+      const emit = arg.slice("--emit=".length) as Emit;
+
+      if (!emits.includes(emit)) {
+        throw new Error(`unknown stage "${emit}" for --emit`);
+      }
+
+      options.emit = emit;
+    } else if (arg.startsWith("--target=")) {
+      const target = arg.slice("--target=".length) as Target;
+
+      if (!targets.includes(target)) {
+        throw new Error(`unknown target "${target}" for --target`);
+      }
+
+      options.target = target;
+    } else if (arg === "--run") {
+      options.run = true;
+    } else if (arg === "--interpret") {
+      options.interpret = true;
+    } else if (arg === "--diff") {
+      options.diff = true;
+    } else if (arg === "--repl") {
+      options.repl = true;
+    } else if (arg === "--trampoline") {
+      options.trampoline = true;
+    } else if (arg === "-O") {
+      options.passes = passOrder;
+    } else if (arg.startsWith("--passes=")) {
+      const names = arg.slice("--passes=".length).split(",") as Pass[];
+      const unknown = names.find((name) => !passOrder.includes(name));
+
+      if (unknown !== undefined) {
+        throw new Error(`unknown pass "${unknown}" for --passes`);
+      }
+
+      options.passes = names;
+    } else if (arg === "--count") {
+      options.count = true;
+    } else if (arg === "-g") {
+      options.debug = true;
+    } else if (arg === "--release") {
+      options.release = true;
+    } else if (arg === "--dump-passes") {
+      options.dumpPasses = true;
+    } else if (/^-[lL]./.test(arg)) {
+      options.linkFlags.push(arg);
+    } else if (/\.(c|o|a)$/.test(arg)) {
+      options.sources.push(path.resolve(arg));
+    } else if (arg === "-" || !arg.startsWith("-")) {
+      options.inputs.push(arg);
+    } else {
+      throw new Error(`unknown option "${arg}"`);
+    }
+  }
+
+  if (!options.diff && options.inputs.length > 1) {
+    throw new Error(`unexpected argument "${options.inputs[1]}"`);
+  }
+
+  if (options.diff && options.inputs.length === 0) {
+    throw new Error("--diff expects at least one file or directory");
+  }
+
+  if (options.target !== "c" && options.sources.length + options.linkFlags.length > 0) {
+    throw new Error(`C sources and link flags cannot be used with --target=${options.target}`);
+  }
+
+  if (options.count && options.target !== "vm") {
+    throw new Error("--count needs --target=vm");
+  }
+
+  if (options.debug && options.target !== "c") {
+    throw new Error("-g needs --target=c");
+  }
+
+  if (options.release && options.target !== "c") {
+    throw new Error("--release needs --target=c");
+  }
+
+  return options;
+};
+
+const dumpPass = (pass: Pass, before: Prog, after: Prog) => {
+  console.error([`;; before ${pass}`, showProg(before), `;; after ${pass}`, showProg(after)].join("\n"));
+};
+
+const closureConvert = (tree: Tree, options: Options, names?: Renaming): Prog => {
+  const dump = options.dumpPasses ? dumpPass : undefined;
+  return runPasses(makePassManager(options.passes, options.trampoline, dump, names), tree);
+};
+
+const readSource = async (input: string | undefined): Promise<string> => {
+  if (input !== undefined && input !== "-") {
+    return promises.readFile(input, "utf8");
+  }
+
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+const showToken = (token: Token): string => {
+  const { line, column } = token.span.start;
+  const value =
+    token.tag === "NUMBER" || token.tag === "SYMBOL" || token.tag === "TYVAR"
+      ? ` ${token.value}`
+      : token.tag === "FLOAT"
+        ? ` ${showFloat(token.value)}`
+        : token.tag === "STRING"
+          ? ` ${JSON.stringify(token.value)}`
+          : "";
+
+  return `${line}:${column} ${token.tag}${value}`;
+};
+
+// Quotes each diagnostic from the file it points into, `file` unless it is in
+// an imported module.
+const reportDiagnostics = (sources: Map<string, string>, diagnostics: DiagnosticType[], file: string) => {
+  const rendered = diagnostics.map((diagnostic) => {
+    const source = sources.get(diagnostic.span.file ?? file) ?? "";
+    return Diagnostic.render(source, diagnostic, file);
+  });
+  console.error(rendered.join("\n\n"));
+};
+
+const driver = async (source: string, options: Options) => {
+  const { emit, output } = options;
+  const [input = "-"] = options.inputs;
+  const file = input === "-" ? "<stdin>" : input;
+  const sources = new Map([[file, source]]);
+
+  try {
+    if (emit === "tokens") {
+      console.log(
+        scanner(source, file)
+          .map((token) => showToken(token))
+          .join("\n")
+      );
+      return;
+    }
+
+    const { tree: prog, imports } = await link(file, source, sources);
+
+    if (emit === "ast") {
+      console.log(show(prog));
+      return;
+    }
+
+    const warnings = resolve(prog, imports);
+
+    if (warnings.length > 0) {
+      reportDiagnostics(sources, warnings, file);
+    }
+
+    const type = typecheck(prog);
+
+    if (emit === "type") {
+      console.log(showT(type));
+      return;
+    }
+
+    if (options.interpret) {
+      console.log(showV(interpret(prog)));
+      return;
+    }
+
+    const names: Renaming = new Map();
+    const conv = closureConvert(prog, options, names);
+
+    if (emit === "closure") {
+      console.log(showProg(conv));
+      return;
+    }
+
+    if (emit === "js") {
+      console.log(jsgenProg(conv));
+      return;
+    }
+
+    if (emit === "bytecode") {
+      console.log(disassemble(compileBytecode(conv)));
+      return;
+    }
+
+    if (options.target === "vm") {
+      const { value, counts } = execute(compileBytecode(conv));
+      console.log(showV(value));
+
+      if (options.count) {
+        console.error(showCounts(counts));
+      }
+      return;
+    }
+
+    const debug: Debug = {
+      names,
+      sources,
+      lines: options.debug ? `${output}.c` : null,
+      checks: !options.release,
+    };
+    const code = codegenProg(conv, debug);
+
+    if (emit === "c") {
+      console.log(code);
+      return;
+    }
+
+    console.log(`main : ${showT(type)}`);
+
+    if (options.target === "js") {
+      await writeOutput(`${output}.js`, await jsModule(conv));
+      console.log(`JavaScript file (${output}.js) written successfully`);
+    } else {
+      await writeOutput(`${output}.c`, code);
+      await compileMain(output, options.sources, options.linkFlags, options.debug);
+
+      if (options.debug) {
+        await writeOutput(`${output}.debug.json`, JSON.stringify(debugMap(conv, debug), null, 2));
+      }
+    }
+
+    if (options.run) {
+      process.exitCode = await runMain(options.target, output);
+    }
+  } catch (error) {
+    if (Diagnostic.isCompileError(error)) {
+      reportDiagnostics(sources, error.diagnostics, file);
+      process.exitCode = 1;
+      return;
+    }
+
+    if (GenericError.isGenericException(error)) {
+      console.error(error.message);
+      process.exitCode = error.status ?? 1;
+      return;
+    }
+
+    throw error;
+  }
+};
+
+// Differential testing
+
+type Outcome = { stdout: string; status: number };
+
+// The outcome of running a program in-process, on the interpreter or the
+// virtual machine.
+const hostedOutcome = (run: (host: Host) => Value): Outcome => {
+  let stdout = "";
+  const host: Host = { write: (text) => (stdout += text) };
+
+  try {
+    const value = run(host);
+    return { stdout: `${stdout}${showV(value)}\n`, status: 0 };
+  } catch (error) {
+    if (GenericError.isGenericException(error)) {
+      return { stdout, status: error.status ?? 1 };
+    }
+
+    throw error;
+  }
+};
+
+const compiledOutcome = async (
+  tree: Tree,
+  sources: Map<string, string>,
+  options: Options,
+  outPath: string
+): Promise<Outcome> => {
+  const names: Renaming = new Map();
+  const prog = closureConvert(tree, options, names);
+
+  if (options.target === "vm") {
+    return hostedOutcome((host) => execute(compileBytecode(prog), host).value);
+  }
+
+  if (options.target === "js") {
+    await writeOutput(`${outPath}.js`, await jsModule(prog));
+  } else {
+    await writeOutput(
+      `${outPath}.c`,
+      codegenProg(prog, { names, sources, lines: options.debug ? `${outPath}.c` : null, checks: !options.release })
+    );
+    await promiseExec("gcc", gccArgs(outPath, options.sources, options.linkFlags, options.debug));
+  }
+
+  const [command, args] = runCommand(options.target, outPath);
+
+  try {
+    const { stdout } = await promiseExec(command, args);
+    return { stdout, status: 0 };
+  } catch (error) {
+    const { stdout, code, signal } = error as { stdout: string; code: number | null; signal: NodeJS.Signals | null };
+    return { stdout, status: code ?? 128 + (signal ? os.constants.signals[signal] : 0) };
+  }
+};
+
+const collectCorpus = async (inputs: string[]): Promise<string[]> => {
+  const files = await Promise.all(
+    inputs.map(async (input) => {
+      if (!(await promises.stat(input)).isDirectory()) {
+        return [input];
+      }
+
+      const entries = await promises.readdir(input);
+      return entries
+        .filter((entry) => entry.endsWith(".wc"))
+        .sort()
+        .map((entry) => path.join(input, entry));
+    })
+  );
+
+  return files.flat();
+};
+
+const showOutcome = ({ stdout, status }: Outcome): string => {
+  return `${JSON.stringify(stdout)} (exit ${status})`;
+};
+
+// Returns the number of programs that failed, so callers decide the exit status.
+const differential = async (options: Options): Promise<number> => {
+  const files = await collectCorpus(options.inputs);
+  const outDir = await promises.mkdtemp(path.join(os.tmpdir(), "weird-c-"));
+  let failures = 0;
+
+  for (const file of files) {
+    const source = await promises.readFile(file, "utf8");
+    const sources = new Map([[file, source]]);
+
+    try {
+      const { tree, imports } = await link(file, source, sources);
+      resolve(tree, imports);
+      typecheck(tree);
+
+      const expected = hostedOutcome((host) => interpret(tree, host));
+      const actual = await compiledOutcome(tree, sources, options, path.join(outDir, path.basename(file, ".wc")));
+
+      if (expected.stdout === actual.stdout && expected.status === actual.status) {
+        console.log(`ok    ${file}`);
+        continue;
+      }
+
+      failures++;
+      console.log(`FAIL  ${file}`);
+      console.log(`  interpreter: ${showOutcome(expected)}`);
+      console.log(`  compiled:    ${showOutcome(actual)}`);
+    } catch (error) {
+      // A host error, such as the interpreter running out of stack or gcc
+      // rejecting the generated C, fails this program but not the whole run.
+      failures++;
+      console.log(`FAIL  ${file}`);
+
+      if (Diagnostic.isCompileError(error)) {
+        reportDiagnostics(sources, error.diagnostics, file);
+      } else {
+        console.log(`  error: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  await promises.rm(outDir, { recursive: true, force: true });
+
+  console.log(`\n${files.length} programs, ${failures} mismatches`);
+  return failures;
+};
+
+export type { Options };
+export { usage, parseArgs, closureConvert, readSource, showToken, reportDiagnostics, driver, differential };
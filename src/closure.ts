@@ -0,0 +1,569 @@
+import { makeContext, Context } from "./lib/context";
+import { makeState, State } from "./lib/state";
+import { ADT, match } from "./lib/helpers";
+import { Pair } from "./lib/pair";
+import { Span } from "./lib/diagnostic";
+import { Name, Oper, Pattern, Prop, Tree, Variant, free, showFloat } from "./syntax";
+
+type Expr = ADT<{
+  Num: { data: number };
+  Float: { data: number };
+  Str: { data: string };
+  Bool: { data: boolean };
+  Ref: { data: string };
+  Idx: { data: string; idx: number };
+  App: { func: Name; args: Expr[]; site: Span | null };
+  Tail: { func: Name; args: Expr[]; site: Span | null };
+  Call: { prop: Prop; func: Name; args: Expr[]; site: Span | null };
+  Prim: { oper: Oper; args: Expr[] };
+  Cls: { prop: Prop; arity: number; body: Expr[] };
+  Let: { name: Name; bind: Expr; body: Expr };
+  Rec: { binds: Pair<Name, Expr>[]; body: Expr };
+  If: { cond: Expr; conseq: Expr; alter: Expr };
+  Data: { ctor: Name | null; args: Expr[] };
+  Field: { base: Expr; idx: number };
+  Is: { base: Expr; ctor: Name };
+  Fail: {};
+  Foreign: { symbol: string; args: Expr[] };
+}>;
+
+// The lambda a Decl's code was made from, and the name it was bound to if it
+// was bound directly by a `let`, `let rec`, `def` or `extern`.
+type Origin = { span: Span; binder: Name | null };
+
+type Topl = ADT<{
+  Decl: { free: number; name: Name; env: Prop; props: Prop[]; body: Expr; origin: Origin };
+  Enum: { name: Name; ctors: Name[] };
+  Proto: { symbol: string; arity: number };
+  Static: { prop: Prop; arity: number };
+  Main: { expr: Expr };
+}>;
+
+type Prog = Topl[];
+
+const showE = (expr: Expr): string =>
+  match(expr)({
+    Num: ({ data }) => `Num ${data}`,
+    Float: ({ data }) => `Float ${showFloat(data)}`,
+    Str: ({ data }) => `Str ${JSON.stringify(data)}`,
+    Bool: ({ data }) => `Bool ${data}`,
+    Ref: ({ data }) => `Ref ${data}`,
+    Idx: ({ data, idx }) => `Idx ${data} ${idx}`,
+    App: ({ func, args }) => `App ${func} [${args.map((x) => showE(x)).join(", ")}]`,
+    Tail: ({ func, args }) => `Tail ${func} [${args.map((x) => showE(x)).join(", ")}]`,
+    Call: ({ prop, func, args }) => `Call ${prop} ${func} [${args.map((x) => showE(x)).join(", ")}]`,
+    Prim: ({ oper, args }) => `Prim ${oper} [${args.map((x) => showE(x)).join(", ")}]`,
+    Cls: ({ prop, arity, body }) => `Closure ${prop}/${arity} [${body.map((x) => showE(x)).join(", ")}]`,
+    Let: ({ name, bind, body }) => `Let (${name},${showE(bind)}) (${showE(body)})`,
+    Rec: ({ binds, body }) =>
+      `Rec [${binds.map(([name, bind]) => `(${name},${showE(bind)})`).join(", ")}] (${showE(body)})`,
+    If: ({ cond, conseq, alter }) => `If (${showE(cond)}) (${showE(conseq)}) (${showE(alter)})`,
+    Data: ({ ctor, args }) => `Data ${ctor ?? "()"} [${args.map((x) => showE(x)).join(", ")}]`,
+    Field: ({ base, idx }) => `Field (${showE(base)}) ${idx}`,
+    Is: ({ base, ctor }) => `Is (${showE(base)}) ${ctor}`,
+    Fail: () => "Fail",
+    Foreign: ({ symbol, args }) => `Foreign ${symbol} [${args.map((x) => showE(x)).join(", ")}]`,
+  });
+
+const showD = (topl: Topl): string =>
+  match(topl)({
+    Decl: ({ free, name, env, props, body }) =>
+      `CodeDec ${free} ${name} (${[env, ...props].join(",")}) (${showE(body)})`,
+    Enum: ({ name, ctors }) => `CodeEnum ${name} [${ctors.join(", ")}]`,
+    Proto: ({ symbol, arity }) => `CodeProto ${symbol}/${arity}`,
+    Static: ({ prop, arity }) => `CodeStatic ${prop}/${arity}`,
+    Main: ({ expr }) => `CodeMain (${showE(expr)})`,
+  });
+
+type Code = string;
+type Build = (_: string) => Code;
+
+const ERef = (data: Name): Expr => ({ tag: "Ref", data });
+const ENum = (data: number): Expr => ({ tag: "Num", data });
+const EFloat = (data: number): Expr => ({ tag: "Float", data });
+const EStr = (data: string): Expr => ({ tag: "Str", data });
+const EBool = (data: boolean): Expr => ({ tag: "Bool", data });
+const EIdx = (data: Name, idx: number): Expr => ({ tag: "Idx", data, idx });
+const ECls = (prop: Prop, arity: number, body: Expr[]): Expr => ({ tag: "Cls", prop, arity, body });
+// The site of a call is the source expression it comes from, for #line
+// directives and for the error when its callee turns out not to be a
+// closure. Calls to a callee known to be a closure are never checked, and an
+// App or Tail has no site when that callee is a closure made by inlining.
+const EApp = (func: Name, args: Expr[], site: Span | null): Expr => ({ tag: "App", func, args, site });
+const ETail = (func: Name, args: Expr[], site: Span | null): Expr => ({ tag: "Tail", func, args, site });
+const ECall = (prop: Prop, func: Name, args: Expr[], site: Span | null): Expr => ({
+  tag: "Call",
+  prop,
+  func,
+  args,
+  site,
+});
+const EPrim = (oper: Oper, args: Expr[]): Expr => ({ tag: "Prim", oper, args });
+const ELet = (name: Name, bind: Expr, body: Expr): Expr => ({ tag: "Let", name, bind, body });
+const ERec = (binds: Pair<Name, Expr>[], body: Expr): Expr => ({ tag: "Rec", binds, body });
+const EIf = (cond: Expr, conseq: Expr, alter: Expr): Expr => ({ tag: "If", cond, conseq, alter });
+const EData = (ctor: Name | null, args: Expr[]): Expr => ({ tag: "Data", ctor, args });
+const EField = (base: Expr, idx: number): Expr => ({ tag: "Field", base, idx });
+const EIs = (base: Expr, ctor: Name): Expr => ({ tag: "Is", base, ctor });
+const EFail = (): Expr => ({ tag: "Fail" });
+const EForeign = (symbol: string, args: Expr[]): Expr => ({ tag: "Foreign", symbol, args });
+
+const TMain = (expr: Expr): Topl => ({ tag: "Main", expr });
+const TEnum = (name: Name, ctors: Name[]): Topl => ({ tag: "Enum", name, ctors });
+const TProto = (symbol: string, arity: number): Topl => ({ tag: "Proto", symbol, arity });
+const TStatic = (prop: Prop, arity: number): Topl => ({ tag: "Static", prop, arity });
+const TDecl = (free: number, name: Name, env: Prop, props: Prop[], body: Expr, origin: Origin): Topl => ({
+  tag: "Decl",
+  free,
+  name,
+  env,
+  props,
+  body,
+  origin,
+});
+
+const substituteRef = (map: Context<Expr>, data: Name): Expr =>
+  match(map.get(data))({
+    Some: ({ value }) => value,
+    None: ({}) => ERef(data),
+  });
+
+const shadow = (map: Context<Expr>, names: Name[]): Context<Expr> => {
+  return makeContext([...map.map].filter(([key]) => !names.includes(key)));
+};
+
+const substituteLet = (map: Context<Expr>, name: Name, bind: Expr, body: Expr): Expr => {
+  const newBind = substitute(map, bind);
+  const newBody = substitute(shadow(map, [name]), body);
+  const newExpr = ELet(name, newBind, newBody);
+
+  return newExpr;
+};
+
+const substituteRec = (map: Context<Expr>, binds: Pair<Name, Expr>[], body: Expr): Expr => {
+  const inner = shadow(
+    map,
+    binds.map(([name]) => name)
+  );
+
+  const newBinds = binds.map(([name, bind]): Pair<Name, Expr> => [name, substitute(inner, bind)]);
+  const newBody = substitute(inner, body);
+  const newExpr = ERec(newBinds, newBody);
+
+  return newExpr;
+};
+
+const substituteCls = (map: Context<Expr>, prop: Prop, arity: number, body: Expr[]): Expr => {
+  const newBody = body.map((expr) => substitute(map, expr));
+  const newExpr = ECls(prop, arity, newBody);
+
+  return newExpr;
+};
+
+const substituteFunc = (map: Context<Expr>, func: Name): Name =>
+  match(map.get(func))({
+    Some: ({ value }) => (value.tag === "Ref" ? value.data : func),
+    None: ({}) => func,
+  });
+
+const substituteApp = (map: Context<Expr>, func: Name, args: Expr[], site: Span | null): Expr => {
+  const newArgs = args.map((expr) => substitute(map, expr));
+  const newExpr = EApp(substituteFunc(map, func), newArgs, site);
+
+  return newExpr;
+};
+
+const substituteTail = (map: Context<Expr>, func: Name, args: Expr[], site: Span | null): Expr => {
+  const newArgs = args.map((expr) => substitute(map, expr));
+  const newExpr = ETail(substituteFunc(map, func), newArgs, site);
+
+  return newExpr;
+};
+
+const substituteCall = (map: Context<Expr>, prop: Prop, func: Name, args: Expr[], site: Span | null): Expr => {
+  const newArgs = args.map((expr) => substitute(map, expr));
+  const newExpr = ECall(prop, substituteFunc(map, func), newArgs, site);
+
+  return newExpr;
+};
+
+const substitutePrim = (map: Context<Expr>, oper: Oper, args: Expr[]): Expr => {
+  const newArgs = args.map((expr) => substitute(map, expr));
+  const newExpr = EPrim(oper, newArgs);
+
+  return newExpr;
+};
+
+const substituteIf = (map: Context<Expr>, cond: Expr, conseq: Expr, alter: Expr): Expr => {
+  const newCond = substitute(map, cond);
+  const newExpr = EIf(newCond, substitute(map, conseq), substitute(map, alter));
+
+  return newExpr;
+};
+
+const substituteData = (map: Context<Expr>, ctor: Name | null, args: Expr[]): Expr => {
+  const newArgs = args.map((expr) => substitute(map, expr));
+  const newExpr = EData(ctor, newArgs);
+
+  return newExpr;
+};
+
+const substitute = (map: Context<Expr>, expr: Expr): Expr =>
+  match(expr)({
+    Num: ({ data }) => ENum(data),
+    Float: ({ data }) => EFloat(data),
+    Str: ({ data }) => EStr(data),
+    Bool: ({ data }) => EBool(data),
+    Idx: ({ data, idx }) => EIdx(data, idx),
+    Ref: ({ data }) => substituteRef(map, data),
+    Cls: ({ prop, arity, body }) => substituteCls(map, prop, arity, body),
+    App: ({ func, args, site }) => substituteApp(map, func, args, site),
+    Tail: ({ func, args, site }) => substituteTail(map, func, args, site),
+    Call: ({ prop, func, args, site }) => substituteCall(map, prop, func, args, site),
+    Prim: ({ oper, args }) => substitutePrim(map, oper, args),
+    Let: ({ name, bind, body }) => substituteLet(map, name, bind, body),
+    Rec: ({ binds, body }) => substituteRec(map, binds, body),
+    If: ({ cond, conseq, alter }) => substituteIf(map, cond, conseq, alter),
+    Data: ({ ctor, args }) => substituteData(map, ctor, args),
+    Field: ({ base, idx }) => EField(substitute(map, base), idx),
+    Is: ({ base, ctor }) => EIs(substitute(map, base), ctor),
+    Fail: () => EFail(),
+    Foreign: ({ symbol, args }) =>
+      EForeign(
+        symbol,
+        args.map((x) => substitute(map, x))
+      ),
+  });
+
+type Converted = Pair<Prog, Pair<Expr, State>>;
+type Atomized = Pair<Pair<Name, Expr>[], Pair<Expr, State>>;
+type Operands = [Prog, Pair<Name, Expr>[], Expr[], State];
+
+const isTrivial = (expr: Expr): boolean => {
+  return ["Num", "Float", "Str", "Bool", "Ref", "Idx", "Cls", "Field"].includes(expr.tag);
+};
+
+const atomize = (state0: State, expr: Expr): Atomized => {
+  if (isTrivial(expr)) {
+    return [[], [expr, state0]];
+  }
+
+  const [nextVar, state1] = state0.next();
+  return [[[`_${nextVar}`, expr]], [ERef(`_${nextVar}`), state1]];
+};
+
+const wrapLets = (binds: Pair<Name, Expr>[], body: Expr): Expr => {
+  return binds.reduceRight((expr, [name, bind]) => ELet(name, bind, expr), body);
+};
+
+const convertNum = (state: State, data: number): Converted => {
+  const num = ENum(data);
+  return [[], [num, state]];
+};
+
+const convertFloat = (state: State, data: number): Converted => {
+  const float = EFloat(data);
+  return [[], [float, state]];
+};
+
+const convertStr = (state: State, data: string): Converted => {
+  const str = EStr(data);
+  return [[], [str, state]];
+};
+
+const convertBool = (state: State, data: boolean): Converted => {
+  const bool = EBool(data);
+  return [[], [bool, state]];
+};
+
+const convertVar = (state: State, data: Name): Converted => {
+  const ref = ERef(data);
+  return [[], [ref, state]];
+};
+
+const convertLam = (state0: State, props: Prop[], body: Tree, span: Span, binder: Name | null = null): Converted => {
+  const [i, state1] = state0.next();
+  const [j, state2] = state1.next();
+
+  const fvs = Array.from(free(body)).filter((name) => !props.includes(name));
+
+  const env = `env${i}`;
+  const cls = `cls${j}`;
+  const sub = makeContext(fvs.map((varName, idx) => [varName, EIdx(env, idx)]));
+
+  const [progBody, [bd, is]] = convert(state2, body);
+  const [exprBody, newState] = [substitute(sub, bd), is];
+
+  const code = TDecl(fvs.length, cls, env, props, exprBody, { span, binder });
+  const refs = fvs.map((fv) => ERef(fv));
+  const clos = ECls(cls, props.length, refs);
+
+  return [
+    [...progBody, code],
+    [clos, newState],
+  ];
+};
+
+const convertOperands = (state0: State, trees: Tree[]): Operands => {
+  return trees.reduce(
+    ([progs, binds, args, state], tree): Operands => {
+      const [prog, [expr, nextState]] = convert(state, tree);
+      const [bound, [atom, lastState]] = atomize(nextState, expr);
+      return [[...progs, ...prog], [...binds, ...bound], [...args, atom], lastState];
+    },
+    [[], [], [], state0] as Operands
+  );
+};
+
+const convertApp = (state0: State, func: Tree, args: Tree[], span: Span): Converted => {
+  const [funProg, [expr, state1]] = convert(state0, func);
+  const [nextVar, state2] = state1.next();
+  const [argProgs, binds, atoms, state3] = convertOperands(state2, args);
+
+  const value = ELet(`_${nextVar}`, expr, wrapLets(binds, EApp(`_${nextVar}`, atoms, span)));
+  const progs = [...funProg, ...argProgs];
+
+  return [progs, [value, state3]];
+};
+
+const convertPrim = (state0: State, oper: Oper, trees: Tree[]): Converted => {
+  const [progs, binds, args, state1] = convertOperands(state0, trees);
+
+  const value = wrapLets(binds, EPrim(oper, args));
+
+  return [progs, [value, state1]];
+};
+
+// A lambda bound by name is converted here rather than by convert, so that its
+// code knows the name for debugging.
+const convertBound = (state: State, name: Name, bind: Tree): Converted => {
+  return bind.tag === "Lam" ? convertLam(state, bind.props, bind.body, bind.span, name) : convert(state, bind);
+};
+
+const convertLet = (state0: State, name: Name, bind: Tree, body: Tree): Converted => {
+  let [bindProg, [expr, state1]] = convertBound(state0, name, bind);
+  let [bodyProg, [code, state2]] = convert(state1, body);
+
+  const value = ELet(name, expr, code);
+  const progs = [...bindProg, ...bodyProg];
+
+  return [progs, [value, state2]];
+};
+
+const convertRec = (state0: State, binds: Pair<Name, Tree>[], body: Tree): Converted => {
+  const [bindProgs, newBinds, state1] = binds.reduce(
+    ([progs, exprs, state], [name, bind]): [Prog, Pair<Name, Expr>[], State] => {
+      const [bindProg, [expr, nextState]] = convertBound(state, name, bind);
+      return [[...progs, ...bindProg], [...exprs, [name, expr]], nextState];
+    },
+    [[], [], state0] as [Prog, Pair<Name, Expr>[], State]
+  );
+
+  const [bodyProg, [code, state2]] = convert(state1, body);
+
+  const value = ERec(newBinds, code);
+  const progs = [...bindProgs, ...bodyProg];
+
+  return [progs, [value, state2]];
+};
+
+const convertIf = (state0: State, cond: Tree, conseq: Tree, alter: Tree): Converted => {
+  const [condProg, [test, state1]] = convert(state0, cond);
+  const [binds, [atom, state2]] = atomize(state1, test);
+  const [thenProg, [thenExpr, state3]] = convert(state2, conseq);
+  const [elseProg, [elseExpr, state4]] = convert(state3, alter);
+
+  const value = wrapLets(binds, EIf(atom, thenExpr, elseExpr));
+  const progs = [...condProg, ...thenProg, ...elseProg];
+
+  return [progs, [value, state4]];
+};
+
+const convertData = (state0: State, ctor: Name | null, trees: Tree[]): Converted => {
+  const [progs, binds, args, state1] = convertOperands(state0, trees);
+
+  const value = wrapLets(binds, EData(ctor, args));
+
+  return [progs, [value, state1]];
+};
+
+// A boolean expression that checks each test in turn, stopping at the first
+// false one, so a field is only read once its constructor has been checked.
+const conjoin = (state0: State, tests: ((state: State) => Pair<Expr, State>)[]): Pair<Expr, State> => {
+  if (tests.length === 0) {
+    return [EBool(true), state0];
+  }
+
+  const [first, ...rest] = tests;
+  const [test, state1] = first(state0);
+  const [cont, state2] = conjoin(state1, rest);
+
+  if (test.tag === "Bool" && test.data) {
+    return [cont, state2];
+  }
+
+  if (cont.tag === "Bool" && cont.data) {
+    return [test, state2];
+  }
+
+  const [nextVar, state3] = state2.next();
+  return [ELet(`_${nextVar}`, test, EIf(ERef(`_${nextVar}`), cont, EBool(false))), state3];
+};
+
+const fieldTests = (patterns: Pattern[], subject: Expr) => {
+  return patterns.map((pattern, idx) => (state: State) => patternTest(state, pattern, EField(subject, idx)));
+};
+
+const patternTest = (state: State, pattern: Pattern, subject: Expr): Pair<Expr, State> =>
+  match(pattern)({
+    Wild: (): Pair<Expr, State> => [EBool(true), state],
+    Bind: (): Pair<Expr, State> => [EBool(true), state],
+    Lit: ({ value }): Pair<Expr, State> => {
+      const [_, [lit]] = convert(state, value);
+      return [EPrim("eq", [subject, lit]), state];
+    },
+    Con: ({ name, args }) => conjoin(state, [(s) => [EIs(subject, name), s], ...fieldTests(args, subject)]),
+    Tuple: ({ items }) => conjoin(state, fieldTests(items, subject)),
+  });
+
+const patternBinds = (pattern: Pattern, subject: Expr): Pair<Name, Expr>[] =>
+  match(pattern)({
+    Wild: () => [],
+    Bind: ({ name }): Pair<Name, Expr>[] => [[name, subject]],
+    Lit: () => [],
+    Con: ({ args }) => args.flatMap((arg, idx) => patternBinds(arg, EField(subject, idx))),
+    Tuple: ({ items }) => items.flatMap((item, idx) => patternBinds(item, EField(subject, idx))),
+  });
+
+// Arms become a chain of tests on the scrutinee, tried in order. The typechecker
+// has proved the match exhaustive, so the final Fail is never reached.
+const convertMatch = (state0: State, scrut: Tree, arms: Pair<Pattern, Tree>[]): Converted => {
+  const [scrutProg, [expr, state1]] = convert(state0, scrut);
+  const [binds, [atom, state2]] = atomize(state1, expr);
+
+  const [armProgs, bodies, state3] = arms.reduce(
+    ([progs, exprs, state], [_, body]): [Prog, Expr[], State] => {
+      const [bodyProg, [bodyExpr, nextState]] = convert(state, body);
+      return [[...progs, ...bodyProg], [...exprs, bodyExpr], nextState];
+    },
+    [[], [], state2] as [Prog, Expr[], State]
+  );
+
+  const [chain, state4] = arms.reduceRight(
+    ([alter, state], [pattern], idx): Pair<Expr, State> => {
+      const conseq = wrapLets(patternBinds(pattern, atom), bodies[idx]);
+      const [test, nextState] = patternTest(state, pattern, atom);
+
+      if (test.tag === "Bool" && test.data) {
+        return [conseq, nextState];
+      }
+
+      const [nextVar, lastState] = nextState.next();
+      return [ELet(`_${nextVar}`, test, EIf(ERef(`_${nextVar}`), conseq, alter)), lastState];
+    },
+    [EFail(), state3] as Pair<Expr, State>
+  );
+
+  const value = wrapLets(binds, chain);
+  const progs = [...scrutProg, ...armProgs];
+
+  return [progs, [value, state4]];
+};
+
+const convertTypeDef = (state: State, name: Name, ctors: Variant[], body: Tree): Converted => {
+  const [bodyProg, converted] = convert(state, body);
+  const code = TEnum(
+    name,
+    ctors.map((variant) => variant.name)
+  );
+
+  return [[code, ...bodyProg], converted];
+};
+
+// An extern is a closure over a wrapper with the usual calling convention,
+// which passes its arguments on to the C function one by one.
+const convertExtern = (state0: State, name: Name, arity: number, symbol: string, body: Tree, span: Span): Converted => {
+  const [i, state1] = state0.next();
+  const [j, state2] = state1.next();
+
+  const [props, state3] = Array.from({ length: arity }).reduce(
+    ([acc, state]: Pair<Prop[], State>): Pair<Prop[], State> => {
+      const [nextVar, nextState] = state.next();
+      return [[...acc, `_${nextVar}`], nextState];
+    },
+    [[], state2] as Pair<Prop[], State>
+  );
+
+  const cls = `cls${j}`;
+  const code = TDecl(
+    0,
+    cls,
+    `env${i}`,
+    props,
+    EForeign(
+      symbol,
+      props.map((prop) => ERef(prop))
+    ),
+    { span, binder: name }
+  );
+  const [bodyProg, [expr, state4]] = convert(state3, body);
+
+  return [
+    [TProto(symbol, arity), code, ...bodyProg],
+    [ELet(name, ECls(cls, arity, []), expr), state4],
+  ];
+};
+
+const convert = (state: State, tree: Tree): Converted =>
+  match(tree)({
+    Num: ({ data }) => convertNum(state, data),
+    Float: ({ data }) => convertFloat(state, data),
+    Str: ({ data }) => convertStr(state, data),
+    Bool: ({ data }) => convertBool(state, data),
+    Var: ({ data }) => convertVar(state, data),
+    Lam: ({ props, body, span }) => convertLam(state, props, body, span),
+    Bin: ({ oper, lhs, rhs }) => convertPrim(state, oper, [lhs, rhs]),
+    Una: ({ oper, argm }) => convertPrim(state, oper, [argm]),
+    App: ({ func, args, span }) => convertApp(state, func, args, span),
+    Let: ({ name, bind, body }) => convertLet(state, name, bind, body),
+    Rec: ({ binds, body }) => convertRec(state, binds, body),
+    If: ({ cond, conseq, alter }) => convertIf(state, cond, conseq, alter),
+    Tuple: ({ items }) => convertData(state, null, items),
+    Con: ({ name, args }) => convertData(state, name, args),
+    Match: ({ scrut, arms }) => convertMatch(state, scrut, arms),
+    TypeDef: ({ name, ctors, body }) => convertTypeDef(state, name, ctors, body),
+    Extern: ({ name, arity, symbol, body, span }) => convertExtern(state, name, arity, symbol, body, span),
+  });
+
+const convertCls = (tree: Tree): Prog => {
+  const [decs, [code, _]] = convert(makeState(), tree);
+  return [...decs, TMain(code)];
+};
+
+export type { Expr, Origin, Topl, Prog, Code, Build };
+export {
+  showD,
+  ERef,
+  ENum,
+  EFloat,
+  EStr,
+  EBool,
+  ECls,
+  EApp,
+  ETail,
+  ECall,
+  EPrim,
+  ELet,
+  ERec,
+  EIf,
+  EData,
+  EField,
+  EIs,
+  EForeign,
+  TMain,
+  TStatic,
+  TDecl,
+  shadow,
+  substitute,
+  convertCls,
+};
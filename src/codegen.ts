@@ -0,0 +1,389 @@
+import { match } from "./lib/helpers";
+import { Pair } from "./lib/pair";
+import { Span } from "./lib/diagnostic";
+import { Name, Oper, Prop, showFloat } from "./syntax";
+import { Renaming } from "./rename";
+import { Build, Code, Expr, Origin, Prog, Topl } from "./closure";
+import { staticName } from "./passes";
+
+// What the C code needs to point back at the source: the source names of the
+// mangled identifiers, the source text of each file, the path of the C file
+// when it should carry #line directives, which make gcc and gdb report source
+// lines for the statements that come from the source and lines of the C file
+// for the rest, and whether to check that every callee is a closure.
+type Debug = { names: Renaming; sources: Map<string, string>; lines: string | null; checks: boolean };
+
+const noDebug: Debug = { names: new Map(), sources: new Map(), lines: null, checks: true };
+
+const sourceName = (debug: Debug, name: Name): Name => {
+  return debug.names.get(name)?.name ?? name;
+};
+
+const showSite = (span: Span): string => {
+  return `${span.file ?? "<input>"}:${span.start.line}:${span.start.column}`;
+};
+
+// A call by its source text, squeezed onto one line and cut short, and where
+// it is.
+const showCall = (debug: Debug, span: Span): string => {
+  const source = span.file === undefined ? undefined : debug.sources.get(span.file);
+
+  if (source === undefined) {
+    return `the call at ${showSite(span)}`;
+  }
+
+  const text = source.slice(span.start.offset, span.end.offset).replace(/\s+/g, " ");
+  return `'${text.length > 40 ? `${text.slice(0, 37)}...` : text}' at ${showSite(span)}`;
+};
+
+// The callee of a call, checked unless it is known to be a closure.
+const checkedCallee = (debug: Debug, func: Name, site: Span | null): Code => {
+  return debug.checks && site !== null ? `check_cls(${func}, ${cString(showCall(debug, site))})` : func;
+};
+
+const lineDirective = (debug: Debug, span: Span | undefined): Code[] => {
+  return debug.lines !== null && span !== undefined
+    ? [`#line ${span.start.line} ${cString(span.file ?? "<input>")}`]
+    : [];
+};
+
+const bindReturn = (bind: Name): Build => {
+  return (body: Name) => `${bind} = ${body};`;
+};
+
+const exprReturn = (expr: Name): Code => {
+  return `return gc_leave(_gc, ${expr});`;
+};
+
+const callReturn = (expr: Name): Code => {
+  return `print_val(${expr});`;
+};
+
+const sameReturn = (expr: Name): Code => {
+  return `${expr}`;
+};
+
+const codegenBool = (build: Build, data: boolean): Code => {
+  return build(`build_bool(${data ? 1 : 0})`);
+};
+
+const codegenRef = (build: Build, data: string): Code => {
+  return build(data);
+};
+
+const codegenNum = (build: Build, data: number): Code => {
+  return build(`build_int(${data})`);
+};
+
+const codegenFloat = (build: Build, data: number): Code => {
+  return build(`build_float(${showFloat(data)})`);
+};
+
+// Printable ASCII goes through as is; every other byte of the UTF-8 encoding
+// becomes an octal escape, which unlike \x cannot swallow the next character.
+const cString = (data: string): string => {
+  const bytes = [...Buffer.from(data, "utf8")];
+  const chars = bytes.map((byte) => {
+    const char = String.fromCharCode(byte);
+
+    if (char === '"' || char === "\\" || char === "?") {
+      return `\\${char}`;
+    }
+
+    return byte >= 0x20 && byte < 0x7f ? char : `\\${byte.toString(8).padStart(3, "0")}`;
+  });
+
+  return `"${chars.join("")}"`;
+};
+
+const codegenStr = (build: Build, data: string): Code => {
+  return build(`build_str(${cString(data)}, ${Buffer.byteLength(data, "utf8")})`);
+};
+
+const codegenIdx = (build: Build, data: string, index: number): Code => {
+  return build(`${data}[${index}]`);
+};
+
+const codegenApp = (debug: Debug, build: Build, func: Name, args: Expr[], site: Span | null): Code => {
+  const code = args.map((expr) => codegenExpr(debug, sameReturn, expr));
+  const expr = `apply(${checkedCallee(debug, func, site)}, ${args.length}, (struct val *[]){ ${code.join(", ")} })`;
+
+  return [...lineDirective(debug, site ?? undefined), build(expr)].join("\n");
+};
+
+const codegenTail = (debug: Debug, build: Build, func: Name, args: Expr[], site: Span | null): Code => {
+  const code = args.map((expr) => codegenExpr(debug, sameReturn, expr));
+  const expr = `tail_call(${checkedCallee(debug, func, site)}, ${args.length}, (struct val *[]){ ${code.join(", ")} })`;
+
+  return [...lineDirective(debug, site ?? undefined), build(expr)].join("\n");
+};
+
+const codegenCall = (debug: Debug, build: Build, prop: Prop, func: Name, args: Expr[], site: Span | null): Code => {
+  const code = args.map((expr) => codegenExpr(debug, sameReturn, expr));
+  const expr = `finish_call(${prop}(${func}->c.env, (struct val *[]){ ${code.join(", ")} }))`;
+
+  return [...lineDirective(debug, site ?? undefined), build(expr)].join("\n");
+};
+
+const codegenPrim = (debug: Debug, build: Build, oper: Oper, args: Expr[]): Code => {
+  const code = args.map((expr) => codegenExpr(debug, sameReturn, expr));
+
+  return build(`prim_${oper}(${code.join(", ")})`);
+};
+
+// A binding from the source starts at the line of its binder.
+const codegenLet = (debug: Debug, build: Build, name: Name, bind: Expr, body: Expr): Code => {
+  const expr = bindReturn(name);
+  const code = codegenExpr(debug, expr, bind);
+  const cont = codegenExpr(debug, build, body);
+
+  return [...lineDirective(debug, debug.names.get(name)?.span), code, cont].join("\n");
+};
+
+const codegenRec = (debug: Debug, build: Build, binds: Pair<Name, Expr>[], body: Expr): Code => {
+  const names = binds.map(([name]) => name);
+  const code = binds.map(([name, bind]) => {
+    return [...lineDirective(debug, debug.names.get(name)?.span), codegenExpr(debug, bindReturn(name), bind)].join(
+      "\n"
+    );
+  });
+
+  const patches = binds.flatMap(([name, bind]) => {
+    if (bind.tag !== "Cls") {
+      throw new Error(`Recursive binding "${name}" must be a closure`);
+    }
+
+    return bind.body.flatMap((slot, idx) =>
+      slot.tag === "Ref" && names.includes(slot.data) ? [`${name}->c.env[${idx}] = ${slot.data};`] : []
+    );
+  });
+
+  const cont = codegenExpr(debug, build, body);
+
+  return [...code, ...patches, cont].join("\n");
+};
+
+const codegenIf = (debug: Debug, build: Build, cond: Expr, conseq: Expr, alter: Expr): Code => {
+  const test = codegenExpr(debug, sameReturn, cond);
+  const expr = [
+    `if (test_bool(${test})) {`,
+    indent(codegenExpr(debug, build, conseq)),
+    "} else {",
+    indent(codegenExpr(debug, build, alter)),
+    "}",
+  ];
+
+  return expr.join("\n");
+};
+
+// Tuples carry no constructor name and tag 0; constructors get their tag
+// from the enum emitted for their type.
+const codegenData = (debug: Debug, build: Build, ctor: Name | null, args: Expr[]): Code => {
+  const code = args.map((expr) => codegenExpr(debug, sameReturn, expr));
+  const head = ctor === null ? ["NULL", "0"] : [`"${ctor}"`, `ctor_${ctor}`];
+
+  return build(`build_data(${[...head, `${args.length}`, ...code].join(", ")})`);
+};
+
+const codegenField = (debug: Debug, build: Build, base: Expr, idx: number): Code => {
+  return build(`${codegenExpr(debug, sameReturn, base)}->c.fields[${idx}]`);
+};
+
+const codegenIs = (debug: Debug, build: Build, base: Expr, ctor: Name): Code => {
+  return build(`build_bool(${codegenExpr(debug, sameReturn, base)}->c.ctor == ctor_${ctor})`);
+};
+
+const codegenForeign = (debug: Debug, build: Build, symbol: string, args: Expr[]): Code => {
+  const code = args.map((expr) => codegenExpr(debug, sameReturn, expr));
+  return build(`${symbol}(${code.join(", ")})`);
+};
+
+const codegenProto = (symbol: string, arity: number): Code => {
+  return `struct val *${symbol}(${Array(arity).fill("struct val *").join(", ")});`;
+};
+
+// The code's prototype comes first, since its definition may follow uses of
+// the closure.
+const codegenStatic = (prop: Prop, arity: number): Code => {
+  return [
+    `struct val *${prop}(struct val **, struct val **);`,
+    `static static_cls_t ${prop}_static = STATIC_CLS(${prop}, ${arity});`,
+    `static struct val *const ${staticName(prop)} = &${prop}_static.val;`,
+  ].join("\n");
+};
+
+const codegenEnum = (ctors: Name[]): Code => {
+  return `enum { ${ctors.map((ctor) => `ctor_${ctor}`).join(", ")} };`;
+};
+
+const locals = (expr: Expr): Name[] =>
+  match(expr)({
+    Num: () => [],
+    Float: () => [],
+    Str: () => [],
+    Bool: () => [],
+    Ref: () => [],
+    Idx: () => [],
+    Cls: () => [],
+    App: ({ args }) => args.flatMap((arg) => locals(arg)),
+    Tail: ({ args }) => args.flatMap((arg) => locals(arg)),
+    Call: ({ args }) => args.flatMap((arg) => locals(arg)),
+    Prim: ({ args }) => args.flatMap((arg) => locals(arg)),
+    Let: ({ name, bind, body }) => [name, ...locals(bind), ...locals(body)],
+    Rec: ({ binds, body }) => [...binds.flatMap(([name, bind]) => [name, ...locals(bind)]), ...locals(body)],
+    If: ({ cond, conseq, alter }) => [...locals(cond), ...locals(conseq), ...locals(alter)],
+    Data: ({ args }) => args.flatMap((arg) => locals(arg)),
+    Field: ({ base }) => locals(base),
+    Is: ({ base }) => locals(base),
+    Fail: () => [],
+    Foreign: ({ args }) => args.flatMap((arg) => locals(arg)),
+  });
+
+const declareLocals = (expr: Expr, params: Name[]): Code[] => {
+  const names = new Set(locals(expr).filter((name) => !params.includes(name)));
+  return [...names].flatMap((name) => [`struct val *${name} = NULL;`, `gc_root(&${name});`]);
+};
+
+const codegenCls = (debug: Debug, build: Build, prop: Prop, arity: number, body: Expr[]): Code => {
+  const code = body.map((expr) => codegenExpr(debug, sameReturn, expr));
+  const cont = [`${body.length}`, ...code].join(", ");
+
+  return build(`build_cls(${prop}, ${arity}, build_env(${cont}))`);
+};
+
+// Names the lambda the code was made from, by its parameters and where it is.
+const describeOrigin = (debug: Debug, name: Name, props: Prop[], { span, binder }: Origin): string => {
+  const params = props.map((prop) => sourceName(debug, prop)).join(", ");
+  const bound = binder === null ? "" : `, bound to '${sourceName(debug, binder)}'`;
+
+  return `${name}: fun ${params} at ${showSite(span)}${bound}`;
+};
+
+const codegenDecl = (debug: Debug, name: Name, env: Prop, props: Prop[], body: Expr, origin: Origin): Code => {
+  const params = props.map((prop, idx) => `struct val *${prop} = _args[${idx}];`);
+  const roots = [env, ...props].map((root) => `gc_root(&${root});`);
+  const entry = ["size_t _gc = gc_frame();", ...params, ...roots, "gc_safepoint();"];
+  const code = [...entry, ...declareLocals(body, [env, ...props]), codegenExpr(debug, exprReturn, body)].join("\n");
+  const expr = [
+    `// ${describeOrigin(debug, name, props, origin)}`,
+    ...lineDirective(debug, origin.span),
+    `struct val *${name} (struct val **${env}, struct val **_args) {`,
+    indent(code),
+    "}",
+  ];
+
+  return expr.join("\n");
+};
+
+const codegenMain = (debug: Debug, body: Expr): Code => {
+  const code = [...declareLocals(body, []), codegenExpr(debug, callReturn, body)].join("\n");
+  const expr = ["int main(void) {", indent(code), "}"];
+
+  return expr.join("\n");
+};
+
+const indent = (str: string): string => {
+  return str
+    .split("\n")
+    .map((line) => "  " + line)
+    .join("\n");
+};
+
+const codegenExpr = (debug: Debug, build: Build, expr: Expr): Code =>
+  match(expr)({
+    Num: ({ data }) => codegenNum(build, data),
+    Float: ({ data }) => codegenFloat(build, data),
+    Str: ({ data }) => codegenStr(build, data),
+    Bool: ({ data }) => codegenBool(build, data),
+    Ref: ({ data }) => codegenRef(build, data),
+    Idx: ({ data, idx }) => codegenIdx(build, data, idx),
+    App: ({ func, args, site }) => codegenApp(debug, build, func, args, site),
+    Tail: ({ func, args, site }) => codegenTail(debug, build, func, args, site),
+    Call: ({ prop, func, args, site }) => codegenCall(debug, build, prop, func, args, site),
+    Prim: ({ oper, args }) => codegenPrim(debug, build, oper, args),
+    Cls: ({ prop, arity, body }) => codegenCls(debug, build, prop, arity, body),
+    Let: ({ name, bind, body }) => codegenLet(debug, build, name, bind, body),
+    Rec: ({ binds, body }) => codegenRec(debug, build, binds, body),
+    If: ({ cond, conseq, alter }) => codegenIf(debug, build, cond, conseq, alter),
+    Data: ({ ctor, args }) => codegenData(debug, build, ctor, args),
+    Field: ({ base, idx }) => codegenField(debug, build, base, idx),
+    Is: ({ base, ctor }) => codegenIs(debug, build, base, ctor),
+    Fail: () => build("match_fail()"),
+    Foreign: ({ symbol, args }) => codegenForeign(debug, build, symbol, args),
+  });
+
+const codegenTopl = (debug: Debug, topl: Topl): Code =>
+  match(topl)({
+    Decl: ({ name, env, props, body, origin }) => codegenDecl(debug, name, env, props, body, origin),
+    Enum: ({ ctors }) => codegenEnum(ctors),
+    Proto: ({ symbol, arity }) => codegenProto(symbol, arity),
+    Static: ({ prop, arity }) => codegenStatic(prop, arity),
+    Main: ({ expr }) => codegenMain(debug, expr),
+  });
+
+// A #line directive from the source holds for the one line of C after it;
+// the line after that goes back to its own place in the C file.
+const placeLines = (code: Code, file: string): Code => {
+  const placed: Code[] = [];
+  let pending = false;
+  let mapped = false;
+
+  code.split("\n").forEach((line) => {
+    if (/^\s*#line /.test(line)) {
+      pending = true;
+    } else if (pending) {
+      [pending, mapped] = [false, true];
+    } else if (mapped) {
+      placed.push(`#line ${placed.length + 2} ${cString(file)}`);
+      mapped = false;
+    }
+
+    placed.push(line);
+  });
+
+  return placed.join("\n");
+};
+
+const codegenProg = (prog: Prog, debug: Debug = noDebug): Code => {
+  const incl = [...(debug.checks ? [] : ["#define UNCHECKED_CALLS"]), '#include "driver.c"'];
+  const expr = prog.map((decl) => codegenTopl(debug, decl));
+  const code = [...incl, ...expr].join("\n\n");
+
+  return debug.lines === null ? code : placeLines(code, debug.lines);
+};
+
+type DebugKind = "variable" | "function" | "environment" | "closure";
+type DebugEntry = { kind: DebugKind; name: Name | null; file: string; line: number; column: number };
+
+// The sidecar of -g: what each identifier of the C code stands for in the
+// source, keyed by the identifier. Functions and their environments are named
+// after the binder of their lambda, and null for an anonymous one.
+const debugMap = (prog: Prog, debug: Debug): Record<Name, DebugEntry> => {
+  const map: Record<Name, DebugEntry> = {};
+  const entry = (kind: DebugKind, name: Name | null, { file, start }: Span): DebugEntry => {
+    return { kind, name, file: file ?? "<input>", line: start.line, column: start.column };
+  };
+
+  debug.names.forEach(({ name, span }, mangled) => {
+    map[mangled] = entry("variable", name, span);
+  });
+
+  prog.forEach((topl) => {
+    if (topl.tag === "Decl") {
+      const name = topl.origin.binder === null ? null : sourceName(debug, topl.origin.binder);
+      map[topl.name] = entry("function", name, topl.origin.span);
+      map[topl.env] = entry("environment", name, topl.origin.span);
+    }
+  });
+
+  prog.forEach((topl) => {
+    if (topl.tag === "Static" && map[topl.prop] !== undefined) {
+      map[staticName(topl.prop)] = { ...map[topl.prop], kind: "closure" };
+    }
+  });
+
+  return map;
+};
+
+export type { Debug };
+export { bindReturn, callReturn, sameReturn, locals, indent, codegenProg, debugMap };
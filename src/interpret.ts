@@ -0,0 +1,363 @@
+import { makeContext, Context } from "./lib/context";
+import { ADT, match } from "./lib/helpers";
+import { Pair } from "./lib/pair";
+import { Option } from "./lib/option";
+import { Error as GenericError } from "./lib/error";
+import { Name, Oper, Pattern, Prop, Tree, operators, showFloat } from "./syntax";
+
+type Value = ADT<{
+  Int: { value: number };
+  Float: { value: number };
+  Str: { value: string };
+  Bool: { value: boolean };
+  Closure: { props: Prop[]; body: Tree; env: Context<Value> };
+  Data: { ctor: Name | null; fields: Value[] };
+  Native: { symbol: string; arity: number; args: Value[] };
+  Code: { chunk: number; arity: number; env: Value[]; args: Value[] };
+}>;
+
+const VInt = (value: number): Value => ({ tag: "Int", value: value | 0 });
+const VFloat = (value: number): Value => ({ tag: "Float", value });
+const VStr = (value: string): Value => ({ tag: "Str", value });
+const VBool = (value: boolean): Value => ({ tag: "Bool", value });
+const VClosure = (props: Prop[], body: Tree, env: Context<Value>): Value => ({ tag: "Closure", props, body, env });
+const VData = (ctor: Name | null, fields: Value[]): Value => ({ tag: "Data", ctor, fields });
+const VNative = (symbol: string, arity: number, args: Value[]): Value => ({ tag: "Native", symbol, arity, args });
+const VCode = (chunk: number, arity: number, env: Value[], args: Value[]): Value => ({
+  tag: "Code",
+  chunk,
+  arity,
+  env,
+  args,
+});
+
+const showV = (value: Value): string =>
+  match(value)({
+    Int: ({ value }) => `${value}`,
+    Float: ({ value }) => showFloat(value),
+    Str: ({ value }) => value,
+    Bool: ({ value }) => `${value}`,
+    Closure: () => "<#closure>",
+    Data: ({ ctor, fields }) => showData(ctor, fields),
+    Native: () => "<#closure>",
+    Code: () => "<#closure>",
+  });
+
+// Strings inside a tuple or constructor are quoted, so "a, b" stays one field.
+// Tuples have no constructor name.
+const showData = (ctor: Name | null, fields: Value[]): string => {
+  const shown = fields.map((field) => (field.tag === "Str" ? JSON.stringify(field.value) : showV(field)));
+
+  if (ctor === null) {
+    return `(${shown.join(", ")})`;
+  }
+
+  return fields.length === 0 ? ctor : `${ctor}(${shown.join(", ")})`;
+};
+
+const expectInt = (value: Value): number => {
+  return value.tag === "Int" ? value.value : GenericError.raise("type error: expected an integer");
+};
+
+const expectBool = (value: Value): boolean => {
+  return value.tag === "Bool" ? value.value : GenericError.raise("type error: condition expects a boolean");
+};
+
+const intPrim = (oper: Oper, [lhs, rhs]: number[]): Value => {
+  switch (oper) {
+    case "add":
+      return VInt(lhs + rhs);
+    case "sub":
+      return VInt(lhs - rhs);
+    case "mul":
+      return VInt(Math.imul(lhs, rhs));
+    case "div":
+      return rhs === 0 ? GenericError.raise("runtime error: division by zero") : VInt(Math.trunc(lhs / rhs));
+    case "lt":
+      return VBool(lhs < rhs);
+    case "eq":
+      return VBool(lhs === rhs);
+    case "neg":
+      return VInt(-lhs);
+  }
+};
+
+const floatPrim = (oper: Oper, [lhs, rhs]: number[]): Value => {
+  switch (oper) {
+    case "add":
+      return VFloat(lhs + rhs);
+    case "sub":
+      return VFloat(lhs - rhs);
+    case "mul":
+      return VFloat(lhs * rhs);
+    case "div":
+      return VFloat(lhs / rhs);
+    case "lt":
+      return VBool(lhs < rhs);
+    case "eq":
+      return VBool(lhs === rhs);
+    case "neg":
+      return VFloat(-lhs);
+  }
+};
+
+// Strings compare by their UTF-8 bytes, like memcmp in the runtime.
+const strPrim = (oper: Oper, [lhs, rhs]: string[]): Value => {
+  switch (oper) {
+    case "add":
+      return VStr(lhs + rhs);
+    case "lt":
+      return VBool(Buffer.compare(Buffer.from(lhs), Buffer.from(rhs)) < 0);
+    case "eq":
+      return VBool(lhs === rhs);
+    default:
+      return GenericError.raise(`type error: operator ${operators[oper]} does not apply to strings`);
+  }
+};
+
+const evaluatePrim = (oper: Oper, args: Value[]): Value => {
+  const [first] = args;
+
+  if (!args.every((arg) => arg.tag === first.tag)) {
+    return GenericError.raise(`type error: operator ${operators[oper]} expects operands of the same type`);
+  }
+
+  return match(first)({
+    Int: () =>
+      intPrim(
+        oper,
+        args.map((arg) => expectInt(arg))
+      ),
+    Float: () =>
+      floatPrim(
+        oper,
+        args.map((arg) => (arg.tag === "Float" ? arg.value : NaN))
+      ),
+    Str: () =>
+      strPrim(
+        oper,
+        args.map((arg) => (arg.tag === "Str" ? arg.value : ""))
+      ),
+    Bool: ({ value }) =>
+      oper === "eq"
+        ? VBool(args.every((arg) => arg.tag === "Bool" && arg.value === value))
+        : GenericError.raise(`type error: operator ${operators[oper]} does not apply to booleans`),
+    Closure: () => GenericError.raise(`type error: operator ${operators[oper]} does not apply to closures`),
+    Data: () => GenericError.raise(`type error: operator ${operators[oper]} does not apply to data`),
+    Native: () => GenericError.raise(`type error: operator ${operators[oper]} does not apply to closures`),
+    Code: () => GenericError.raise(`type error: operator ${operators[oper]} does not apply to closures`),
+  });
+};
+
+// Where the interpreter's foreign functions send their output.
+type Host = { write: (text: string) => void };
+
+const stdio: Host = { write: (text) => process.stdout.write(text) };
+
+const expectFloat = (value: Value, symbol: string): number => {
+  return value.tag === "Float" ? value.value : GenericError.raise(`type error: ${symbol} expects a float`);
+};
+
+// The interpreter's versions of the ffi_* functions in driver.c.
+const foreign: Record<string, (host: Host, args: Value[]) => Value> = {
+  ffi_print: (host, [value]) => {
+    host.write(`${showV(value)}\n`);
+    return value;
+  },
+  ffi_clock: () => VFloat(process.cpuUsage().user / 1e6),
+  ffi_sqrt: (_, [value]) => VFloat(Math.sqrt(expectFloat(value, "ffi_sqrt"))),
+  ffi_pow: (_, [base, power]) => VFloat(Math.pow(expectFloat(base, "ffi_pow"), expectFloat(power, "ffi_pow"))),
+  ffi_floor: (_, [value]) => VFloat(Math.floor(expectFloat(value, "ffi_floor"))),
+  ffi_float_of_int: (_, [value]) => VFloat(expectInt(value)),
+  ffi_int_of_float: (_, [value]) => VInt(Math.trunc(expectFloat(value, "ffi_int_of_float"))),
+  ffi_string_of_int: (_, [value]) => VStr(`${expectInt(value)}`),
+};
+
+const applyNative = (host: Host, symbol: string, arity: number, args: Value[]): Value => {
+  const call = foreign[symbol];
+
+  if (args.length < arity) {
+    return VNative(symbol, arity, args);
+  }
+
+  if (call === undefined) {
+    return GenericError.raise(`runtime error: extern "${symbol}" is not available in the interpreter`);
+  }
+
+  const result = call(host, args.slice(0, arity));
+  return args.length === arity ? result : applyValue(host, result, args.slice(arity));
+};
+
+// Applying anything but a closure exits with a status of its own, as it does
+// in driver.c.
+const applyError = 3;
+
+const showKind = (value: Value): string =>
+  match(value)({
+    Int: () => "an integer",
+    Float: () => "a float",
+    Str: () => "a string",
+    Bool: () => "a boolean",
+    Closure: () => "a closure",
+    Data: ({ ctor }) => (ctor === null ? "a tuple" : "a constructor value"),
+    Native: () => "a closure",
+    Code: () => "a closure",
+  });
+
+const notClosure = (value: Value): never => {
+  return GenericError.raise(`type error: cannot apply ${showKind(value)}`, applyError);
+};
+
+// What evaluating a tree comes to: a value, or the tree left in tail position.
+// Tail positions jump back to the loop in `run` instead of recursing, so a
+// tail-recursive loop runs in constant host stack as it does in the backends.
+type Step = ADT<{
+  Done: { value: Value };
+  Jump: { env: Context<Value>; tree: Tree };
+}>;
+
+const Done = (value: Value): Step => ({ tag: "Done", value });
+const Jump = (env: Context<Value>, tree: Tree): Step => ({ tag: "Jump", env, tree });
+
+const run = (host: Host, step: Step): Value => {
+  while (step.tag === "Jump") {
+    step = evaluateStep(host, step.env, step.tree);
+  }
+
+  return step.value;
+};
+
+const applyStep = (host: Host, callee: Value, args: Value[]): Step => {
+  if (callee.tag === "Native") {
+    return Done(applyNative(host, callee.symbol, callee.arity, [...callee.args, ...args]));
+  }
+
+  if (callee.tag !== "Closure") {
+    return notClosure(callee);
+  }
+
+  const { props, body, env } = callee;
+  const bound = props.slice(0, args.length).map((prop, idx): Pair<Prop, Value> => [prop, args[idx]]);
+  const scope = makeContext([...env.map, ...bound]);
+
+  if (args.length < props.length) {
+    return Done(VClosure(props.slice(args.length), body, scope));
+  }
+
+  if (args.length === props.length) {
+    return Jump(scope, body);
+  }
+
+  return applyStep(host, evaluate(host, scope, body), args.slice(props.length));
+};
+
+const applyValue = (host: Host, callee: Value, args: Value[]): Value => {
+  return run(host, applyStep(host, callee, args));
+};
+
+const evaluateApp = (host: Host, env: Context<Value>, func: Tree, args: Tree[]): Step => {
+  const callee = evaluate(host, env, func);
+  const values = args.map((arg) => evaluate(host, env, arg));
+
+  return applyStep(host, callee, values);
+};
+
+const evaluateRec = (host: Host, env: Context<Value>, binds: Pair<Name, Tree>[], body: Tree): Step => {
+  const scope = makeContext([...env.map]);
+  binds.forEach(([name, bind]) => scope.set(name, evaluate(host, scope, bind)));
+
+  return Jump(scope, body);
+};
+
+const matchAll = (host: Host, patterns: Pattern[], values: Value[]): Pair<Name, Value>[] | undefined => {
+  return patterns.reduce((acc: Pair<Name, Value>[] | undefined, pattern, idx) => {
+    const binds = acc && matchPattern(host, pattern, values[idx]);
+    return acc && binds && [...acc, ...binds];
+  }, []);
+};
+
+// The bindings a pattern makes against a value, or undefined if it does not match.
+const matchPattern = (host: Host, pattern: Pattern, value: Value): Pair<Name, Value>[] | undefined =>
+  match(pattern)({
+    Wild: () => [],
+    Bind: ({ name }): Pair<Name, Value>[] => [[name, value]],
+    Lit: ({ value: lit }) =>
+      expectBool(evaluatePrim("eq", [evaluate(host, makeContext(), lit), value])) ? [] : undefined,
+    Con: ({ name, args }) =>
+      value.tag === "Data" && value.ctor === name ? matchAll(host, args, value.fields) : undefined,
+    Tuple: ({ items }) => (value.tag === "Data" ? matchAll(host, items, value.fields) : undefined),
+  });
+
+const evaluateMatch = (host: Host, env: Context<Value>, scrut: Tree, arms: Pair<Pattern, Tree>[]): Step => {
+  const value = evaluate(host, env, scrut);
+
+  for (const [pattern, body] of arms) {
+    const binds = matchPattern(host, pattern, value);
+
+    if (binds !== undefined) {
+      return Jump(makeContext([...env.map, ...binds]), body);
+    }
+  }
+
+  return GenericError.raise("runtime error: no pattern matched");
+};
+
+const evaluateStep = (host: Host, env: Context<Value>, tree: Tree): Step =>
+  match(tree)({
+    Num: ({ data }) => Done(VInt(data)),
+    Float: ({ data }) => Done(VFloat(data)),
+    Str: ({ data }) => Done(VStr(data)),
+    Bool: ({ data }) => Done(VBool(data)),
+    Var: ({ data }) => Done(Option.unwrap(env.get(data))),
+    Bin: ({ oper, lhs, rhs }) => Done(evaluatePrim(oper, [evaluate(host, env, lhs), evaluate(host, env, rhs)])),
+    Una: ({ oper, argm }) => Done(evaluatePrim(oper, [evaluate(host, env, argm)])),
+    Lam: ({ props, body }) => Done(VClosure(props, body, env)),
+    App: ({ func, args }) => evaluateApp(host, env, func, args),
+    Let: ({ name, bind, body }) => Jump(makeContext([...env.map, [name, evaluate(host, env, bind)]]), body),
+    Rec: ({ binds, body }) => evaluateRec(host, env, binds, body),
+    If: ({ cond, conseq, alter }) => Jump(env, expectBool(evaluate(host, env, cond)) ? conseq : alter),
+    Tuple: ({ items }) =>
+      Done(
+        VData(
+          null,
+          items.map((item) => evaluate(host, env, item))
+        )
+      ),
+    Con: ({ name, args }) =>
+      Done(
+        VData(
+          name,
+          args.map((arg) => evaluate(host, env, arg))
+        )
+      ),
+    Match: ({ scrut, arms }) => evaluateMatch(host, env, scrut, arms),
+    TypeDef: ({ body }) => Jump(env, body),
+    Extern: ({ name, arity, symbol, body }) =>
+      Jump(makeContext([...env.map, [name, VNative(symbol, arity, [])]]), body),
+  });
+
+const evaluate = (host: Host, env: Context<Value>, tree: Tree): Value => {
+  return run(host, evaluateStep(host, env, tree));
+};
+
+const interpret = (tree: Tree, host: Host = stdio): Value => {
+  return evaluate(host, makeContext(), tree);
+};
+
+export type { Value, Host };
+export {
+  VInt,
+  VFloat,
+  VStr,
+  VBool,
+  VData,
+  VCode,
+  showV,
+  expectBool,
+  evaluatePrim,
+  stdio,
+  foreign,
+  notClosure,
+  evaluate,
+  interpret,
+};
@@ -0,0 +1,128 @@
+import { match } from "./lib/helpers";
+import { Pair } from "./lib/pair";
+import { Name, Prop, showFloat } from "./syntax";
+import { Build, Code, Expr, Prog, Topl } from "./closure";
+import { staticName } from "./passes";
+import { bindReturn, callReturn, indent, locals, sameReturn } from "./codegen";
+
+// The same program as code for node, calling the driver.js counterparts of
+// the driver.c functions. Code functions take their environment and arguments
+// as arrays, and locals are declared up front as in C, so that a recursive
+// group can patch its closures once all of them exist.
+
+const jsReturn = (expr: Name): Code => {
+  return `return ${expr};`;
+};
+
+const jsFloat = (data: number): string => {
+  if (Number.isNaN(data)) {
+    return "NaN";
+  }
+
+  return Number.isFinite(data) ? showFloat(data) : data > 0 ? "Infinity" : "-Infinity";
+};
+
+const jsgenArgs = (args: Expr[]): Code => {
+  return `[${args.map((expr) => jsgenExpr(sameReturn, expr)).join(", ")}]`;
+};
+
+const jsgenLet = (build: Build, name: Name, bind: Expr, body: Expr): Code => {
+  return [jsgenExpr(bindReturn(name), bind), jsgenExpr(build, body)].join("\n");
+};
+
+const jsgenRec = (build: Build, binds: Pair<Name, Expr>[], body: Expr): Code => {
+  const names = binds.map(([name]) => name);
+  const code = binds.map(([name, bind]) => jsgenExpr(bindReturn(name), bind));
+
+  const patches = binds.flatMap(([name, bind]) => {
+    if (bind.tag !== "Cls") {
+      throw new Error(`Recursive binding "${name}" must be a closure`);
+    }
+
+    return bind.body.flatMap((slot, idx) =>
+      slot.tag === "Ref" && names.includes(slot.data) ? [`${name}.env[${idx}] = ${slot.data};`] : []
+    );
+  });
+
+  return [...code, ...patches, jsgenExpr(build, body)].join("\n");
+};
+
+const jsgenIf = (build: Build, cond: Expr, conseq: Expr, alter: Expr): Code => {
+  const test = jsgenExpr(sameReturn, cond);
+  const expr = [
+    `if (test_bool(${test})) {`,
+    indent(jsgenExpr(build, conseq)),
+    "} else {",
+    indent(jsgenExpr(build, alter)),
+    "}",
+  ];
+
+  return expr.join("\n");
+};
+
+const jsgenData = (build: Build, ctor: Name | null, args: Expr[]): Code => {
+  const head = ctor === null ? ["null", "0"] : [JSON.stringify(ctor), `ctor_${ctor}`];
+  return build(`build_data(${[...head, jsgenArgs(args)].join(", ")})`);
+};
+
+const jsgenLocals = (expr: Expr, params: Name[]): Code[] => {
+  const names = new Set(locals(expr).filter((name) => !params.includes(name)));
+  return [...names].map((name) => `let ${name} = null;`);
+};
+
+const jsgenDecl = (name: Name, env: Prop, props: Prop[], body: Expr): Code => {
+  const params = props.map((prop, idx) => `let ${prop} = _args[${idx}];`);
+  const code = [...params, ...jsgenLocals(body, [env, ...props]), jsgenExpr(jsReturn, body)].join("\n");
+
+  return [`function ${name}(${env}, _args) {`, indent(code), "}"].join("\n");
+};
+
+const jsgenMain = (body: Expr): Code => {
+  const code = [...jsgenLocals(body, []), jsgenExpr(callReturn, body)].join("\n");
+  return ["function main() {", indent(code), "}", "", "main();"].join("\n");
+};
+
+const jsgenExpr = (build: Build, expr: Expr): Code =>
+  match(expr)({
+    Num: ({ data }) => build(`build_int(${data})`),
+    Float: ({ data }) => build(`build_float(${jsFloat(data)})`),
+    Str: ({ data }) => build(`build_str(${JSON.stringify(data)})`),
+    Bool: ({ data }) => build(`build_bool(${data})`),
+    Ref: ({ data }) => build(data),
+    Idx: ({ data, idx }) => build(`${data}[${idx}]`),
+    App: ({ func, args }) => build(`apply(${func}, ${jsgenArgs(args)})`),
+    Tail: ({ func, args }) => build(`tail_call(${func}, ${jsgenArgs(args)})`),
+    Call: ({ prop, func, args }) => build(`finish_call(${prop}(${func}.env, ${jsgenArgs(args)}))`),
+    Prim: ({ oper, args }) => build(`prim_${oper}(${args.map((arg) => jsgenExpr(sameReturn, arg)).join(", ")})`),
+    Cls: ({ prop, arity, body }) => build(`build_cls(${prop}, ${arity}, ${jsgenArgs(body)})`),
+    Let: ({ name, bind, body }) => jsgenLet(build, name, bind, body),
+    Rec: ({ binds, body }) => jsgenRec(build, binds, body),
+    If: ({ cond, conseq, alter }) => jsgenIf(build, cond, conseq, alter),
+    Data: ({ ctor, args }) => jsgenData(build, ctor, args),
+    Field: ({ base, idx }) => build(`${jsgenExpr(sameReturn, base)}.fields[${idx}]`),
+    Is: ({ base, ctor }) => build(`build_bool(${jsgenExpr(sameReturn, base)}.ctor === ctor_${ctor})`),
+    Fail: () => build("match_fail()"),
+    Foreign: ({ symbol, args }) => build(`${symbol}(${args.map((arg) => jsgenExpr(sameReturn, arg)).join(", ")})`),
+  });
+
+const jsgenTopl = (topl: Topl): Code =>
+  match(topl)({
+    Decl: ({ name, env, props, body }) => jsgenDecl(name, env, props, body),
+    Enum: ({ ctors }) => ctors.map((ctor, idx) => `const ctor_${ctor} = ${idx};`).join("\n"),
+    Proto: ({ symbol }) => `const ${symbol} = foreign(${JSON.stringify(symbol)});`,
+    Static: ({ prop, arity }) => `const ${staticName(prop)} = build_cls(${prop}, ${arity}, []);`,
+    Main: ({ expr }) => jsgenMain(expr),
+  });
+
+// Two externs may name the same function, which C declares twice but a module
+// may only bind once.
+const jsgenProg = (prog: Prog): Code => {
+  const unique = prog.filter(
+    (topl, idx) =>
+      topl.tag !== "Proto" || prog.findIndex((other) => other.tag === "Proto" && other.symbol === topl.symbol) === idx
+  );
+
+  return unique.map((topl) => jsgenTopl(topl)).join("\n\n");
+};
+
+export { jsgenProg };
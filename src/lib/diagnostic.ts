@@ -0,0 +1,131 @@
+interface Position {
+  line: number;
+  column: number;
+  offset: number;
+}
+
+interface Span {
+  start: Position;
+  end: Position;
+  file?: string;
+}
+
+type Severity = "error" | "warning";
+
+interface Diagnostic {
+  severity: Severity;
+  message: string;
+  span: Span;
+  hint?: string;
+}
+
+interface CompileError {
+  name: "CompileError";
+  message: string;
+  diagnostics: Diagnostic[];
+}
+
+const makeLocator = (source: string, file?: string) => {
+  const lines = [0];
+
+  for (let i = 0; i < source.length; i++) {
+    if (source.charAt(i) === "\n") {
+      lines.push(i + 1);
+    }
+  }
+
+  const position = (offset: number): Position => {
+    let lo = 0;
+    let hi = lines.length - 1;
+
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+
+      if (lines[mid] <= offset) {
+        lo = mid;
+      } else {
+        hi = mid - 1;
+      }
+    }
+
+    return { line: lo + 1, column: offset - lines[lo] + 1, offset };
+  };
+
+  return (start: number, end: number): Span => ({ start: position(start), end: position(end), file });
+};
+
+const merge = (lhs: Span, rhs: Span): Span => ({ ...lhs, end: rhs.end });
+
+const render = (source: string, diagnostic: Diagnostic, file = "<input>"): string => {
+  const { severity, message, span, hint } = diagnostic;
+  const { line, column } = span.start;
+  const origin = span.file ?? file;
+
+  const text = source.split("\n")[line - 1] ?? "";
+  const stop = span.end.line === line ? span.end.column : text.length + 1;
+  const width = Math.max(1, stop - column);
+
+  const gutter = " ".repeat(`${line}`.length);
+  const caret = " ".repeat(column - 1) + "^".repeat(width);
+
+  return [
+    `${severity}: ${message}`,
+    `${gutter}--> ${origin}:${line}:${column}`,
+    `${gutter} |`,
+    `${line} | ${text}`,
+    `${gutter} | ${caret}`,
+    ...(hint === undefined ? [] : [`${gutter} = help: ${hint}`]),
+  ].join("\n");
+};
+
+// Edit distance counting insertions, deletions, substitutions and swaps of
+// adjacent characters, so that typos like "cuont" stay close to "count".
+const distance = (lhs: string, rhs: string): number => {
+  const table = Array.from({ length: lhs.length + 1 }, (_, i) =>
+    Array.from({ length: rhs.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= lhs.length; i++) {
+    for (let j = 1; j <= rhs.length; j++) {
+      const cost = lhs.charAt(i - 1) === rhs.charAt(j - 1) ? 0 : 1;
+      table[i][j] = Math.min(table[i - 1][j] + 1, table[i][j - 1] + 1, table[i - 1][j - 1] + cost);
+
+      if (i > 1 && j > 1 && lhs.charAt(i - 1) === rhs.charAt(j - 2) && lhs.charAt(i - 2) === rhs.charAt(j - 1)) {
+        table[i][j] = Math.min(table[i][j], table[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return table[lhs.length][rhs.length];
+};
+
+// Picks the closest candidate within a third of the name's length, if any.
+const suggest = (name: string, candidates: string[]): string | undefined => {
+  const limit = Math.max(1, Math.floor(name.length / 3));
+  const ranked = candidates
+    .map((candidate): [string, number] => [candidate, distance(name, candidate)])
+    .filter(([_, cost]) => cost <= limit)
+    .sort(([_, lhs], [__, rhs]) => lhs - rhs);
+
+  return ranked[0]?.[0];
+};
+
+const Diagnostic = {
+  error: (message: string, span: Span, hint?: string): Diagnostic => ({ severity: "error", message, span, hint }),
+  warning: (message: string, span: Span, hint?: string): Diagnostic => ({ severity: "warning", message, span, hint }),
+  raise: (diagnostics: Diagnostic[]): never => {
+    throw {
+      name: "CompileError",
+      message: diagnostics.map((diagnostic) => diagnostic.message).join("\n"),
+      diagnostics,
+    } as CompileError;
+  },
+  isCompileError: (error: unknown): error is CompileError => {
+    return typeof error === "object" && error !== null && (error as CompileError).name === "CompileError";
+  },
+  render,
+};
+
+export type { Position, Span, Severity, CompileError };
+export type { Diagnostic as DiagnosticType };
+export { Diagnostic, makeLocator, merge, suggest };
@@ -1,13 +1,18 @@
 export interface GenericException {
   name: "GenericException";
   message: string;
+  status?: number;
 }
 
 export const Error = {
-  raise: <A extends string>(msg: A): never => {
+  raise: <A extends string>(msg: A, status?: number): never => {
     throw {
       name: "GenericException",
       message: msg.toString(),
+      status,
     } as GenericException;
   },
+  isGenericException: (error: unknown): error is GenericException => {
+    return typeof error === "object" && error !== null && (error as GenericException).name === "GenericException";
+  },
 };
@@ -0,0 +1,121 @@
+import { promises } from "fs";
+import path from "path";
+
+import { makeContext, Context } from "./lib/context";
+import { Pair } from "./lib/pair";
+import { Diagnostic } from "./lib/diagnostic";
+import { Extern, Let, Name, Rec, Tree, TypeDef } from "./syntax";
+import { parser, scanner } from "./parser";
+import { renameTree, resolveName } from "./rename";
+
+type Linked = { tree: Tree; imports: Map<string, Name[]> };
+
+// Renames the top-level bindings of a module with `exported`, `Module.name`
+// when linking, along with the references to them, and puts `rest` at the end
+// of its declarations.
+const qualify = (exported: (name: Name) => Name, scope: Context<Name>, tree: Tree, rest: Tree): Tree => {
+  const exporting = (names: Name[]): Context<Name> => {
+    return makeContext([...scope.map, ...names.map((name): [Name, Name] => [name, exported(name)])]);
+  };
+
+  const within = (scope: Context<Name>, tree: Tree): Tree => {
+    return renameTree((name) => name, scope, tree);
+  };
+
+  switch (tree.tag) {
+    case "Let": {
+      const inner = exporting([tree.name]);
+      const body = qualify(exported, inner, tree.body, rest);
+      return Let(resolveName(inner, tree.name), tree.site, within(scope, tree.bind), body, tree.span);
+    }
+    case "Rec": {
+      const inner = exporting(tree.binds.map(([name]) => name));
+      const binds = tree.binds.map(([name, bind]): Pair<Name, Tree> => [resolveName(inner, name), within(inner, bind)]);
+      return Rec(binds, tree.sites, qualify(exported, inner, tree.body, rest), tree.span);
+    }
+    case "TypeDef": {
+      const { name, params, ctors, body, span } = tree;
+      return TypeDef(name, params, ctors, qualify(exported, scope, body, rest), span);
+    }
+    case "Extern": {
+      const { name, site, arity, symbol, body, span } = tree;
+      const inner = exporting([name]);
+      return Extern(resolveName(inner, name), site, arity, symbol, qualify(exported, inner, body, rest), span);
+    }
+    case "Tuple":
+      if (tree.items.length === 0) {
+        return rest;
+      }
+
+      break;
+  }
+
+  const hint = "a module holds only `let`, `let rec`, `type` and `extern` declarations";
+  return Diagnostic.raise([Diagnostic.error("Expected a declaration", tree.span, hint)]);
+};
+
+// Reads every module the program imports, directly or not, once each, and
+// links them into a single tree: each module's declarations wrap those of the
+// modules loaded after it, and the program comes last. Returns the modules
+// whose names each file may use, for the resolver: those it imports and its
+// own. Records the text of every file in `sources` so that diagnostics can
+// quote it. Modules are read with `read`, from disk unless told otherwise.
+const link = async (
+  file: string,
+  source: string,
+  sources: Map<string, string>,
+  read: (file: string) => Promise<string> = (file) => promises.readFile(file, "utf8")
+): Promise<Linked> => {
+  const imports = new Map<string, Name[]>();
+  const loaded = new Map<Name, string>();
+  const modules: Pair<Name, Tree>[] = [];
+  const stack: string[] = [];
+
+  const load = async (file: string, source: string, module?: Name): Promise<Tree> => {
+    sources.set(file, source);
+    stack.push(file);
+
+    const parsed = parser(scanner(source, file), module !== undefined);
+    imports.set(file, [...(module === undefined ? [] : [module]), ...parsed.imports.map(({ name }) => name)]);
+
+    for (const { name, file: target, span } of parsed.imports) {
+      const next = path.join(path.dirname(file), target);
+      const cycle = stack.findIndex((file) => path.resolve(file) === path.resolve(next));
+
+      if (cycle >= 0) {
+        const chain = [...stack.slice(cycle), next].join(" -> ");
+        Diagnostic.raise([Diagnostic.error(`Import cycle: ${chain}`, span)]);
+      }
+
+      const owner = loaded.get(name);
+
+      if (owner !== undefined && path.resolve(owner) === path.resolve(next)) {
+        continue;
+      }
+
+      if (owner !== undefined) {
+        Diagnostic.raise([Diagnostic.error(`Module '${name}' is already imported from ${owner}`, span)]);
+      }
+
+      const text = await read(next).catch(() => {
+        return Diagnostic.raise([Diagnostic.error(`Cannot read module ${JSON.stringify(target)} from ${next}`, span)]);
+      });
+
+      loaded.set(name, next);
+      modules.push([name, await load(next, text, name)]);
+    }
+
+    stack.pop();
+    return parsed.tree;
+  };
+
+  const program = await load(file, source);
+  const tree = modules.reduceRight(
+    (rest, [name, tree]) => qualify((binding) => `${name}.${binding}`, makeContext(), tree, rest),
+    program
+  );
+
+  return { tree, imports };
+};
+
+export { qualify, link };
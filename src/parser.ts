@@ -0,0 +1,997 @@
+import path from "path";
+
+import { ADT } from "./lib/helpers";
+import { Pair } from "./lib/pair";
+import { Diagnostic, DiagnosticType, Span, makeLocator, merge } from "./lib/diagnostic";
+import {
+  App,
+  Bin,
+  Bool,
+  Con,
+  Extern,
+  Float,
+  If,
+  Import,
+  Lam,
+  Let,
+  Match,
+  Module,
+  Name,
+  Num,
+  Oper,
+  PBind,
+  PCon,
+  PLit,
+  PTuple,
+  PWild,
+  Pattern,
+  Prop,
+  Rec,
+  Str,
+  Tree,
+  Tuple,
+  TyCon,
+  TyFun,
+  TyVar,
+  Type,
+  TypeDef,
+  Una,
+  Var,
+  Variant,
+  showFloat,
+  tupleType,
+} from "./syntax";
+
+type TokenKind = ADT<{
+  NUMBER: { value: number };
+  FLOAT: { value: number };
+  STRING: { value: string };
+  SYMBOL: { value: string };
+  TYVAR: { value: string };
+  SEMICOLON: {};
+  COLON: {};
+  LPAREN: {};
+  RPAREN: {};
+  COMMA: {};
+  EQUAL: {};
+  ARROW: {};
+  THIN_ARROW: {};
+  BAR: {};
+  PLUS: {};
+  MINUS: {};
+  STAR: {};
+  SLASH: {};
+  LESS: {};
+  EQUAL_EQUAL: {};
+  FUN: {};
+  LET: {};
+  REC: {};
+  AND: {};
+  IF: {};
+  THEN: {};
+  ELSE: {};
+  TRUE: {};
+  FALSE: {};
+  TYPE: {};
+  MATCH: {};
+  WITH: {};
+  EXTERN: {};
+  IMPORT: {};
+  DEF: {};
+  EOF: {};
+}>;
+
+type Token = TokenKind & { span: Span };
+
+const lexemes: Record<Token["tag"], string> = {
+  NUMBER: "number",
+  FLOAT: "float",
+  STRING: "string",
+  SYMBOL: "identifier",
+  TYVAR: "type variable",
+  SEMICOLON: "';'",
+  COLON: "':'",
+  LPAREN: "'('",
+  RPAREN: "')'",
+  COMMA: "','",
+  EQUAL: "'='",
+  ARROW: "'=>'",
+  THIN_ARROW: "'->'",
+  BAR: "'|'",
+  PLUS: "'+'",
+  MINUS: "'-'",
+  STAR: "'*'",
+  SLASH: "'/'",
+  LESS: "'<'",
+  EQUAL_EQUAL: "'=='",
+  FUN: "'fun'",
+  LET: "'let'",
+  REC: "'rec'",
+  AND: "'and'",
+  IF: "'if'",
+  THEN: "'then'",
+  ELSE: "'else'",
+  TRUE: "'true'",
+  FALSE: "'false'",
+  TYPE: "'type'",
+  MATCH: "'match'",
+  WITH: "'with'",
+  EXTERN: "'extern'",
+  IMPORT: "'import'",
+  DEF: "'def'",
+  EOF: "end of input",
+};
+
+const describe = (token: Token): string => {
+  switch (token.tag) {
+    case "NUMBER":
+    case "SYMBOL":
+      return `'${token.value}'`;
+    case "TYVAR":
+      return token.value;
+    case "FLOAT":
+      return `'${showFloat(token.value)}'`;
+    case "STRING":
+      return JSON.stringify(token.value);
+    default:
+      return lexemes[token.tag];
+  }
+};
+
+const scanner = (source: string, file?: string): Token[] => {
+  // God Forgive Me for My Sins
+  const reserved = new Map<string, TokenKind>([
+    ["fun", { tag: "FUN" }],
+    ["let", { tag: "LET" }],
+    ["rec", { tag: "REC" }],
+    ["and", { tag: "AND" }],
+    ["if", { tag: "IF" }],
+    ["then", { tag: "THEN" }],
+    ["else", { tag: "ELSE" }],
+    ["true", { tag: "TRUE" }],
+    ["false", { tag: "FALSE" }],
+    ["type", { tag: "TYPE" }],
+    ["match", { tag: "MATCH" }],
+    ["with", { tag: "WITH" }],
+    ["extern", { tag: "EXTERN" }],
+    ["import", { tag: "IMPORT" }],
+    ["def", { tag: "DEF" }],
+  ]);
+
+  const escapes = new Map<string, string>([
+    ["n", "\n"],
+    ["t", "\t"],
+    ["r", "\r"],
+    ["0", "\0"],
+    ["\\", "\\"],
+    ['"', '"'],
+  ]);
+
+  const tokens: Token[] = [];
+  const diagnostics: DiagnosticType[] = [];
+  const locate = makeLocator(source, file);
+
+  const isDigit = (char: string) => {
+    return char >= "0" && char <= "9";
+  };
+
+  const isAlpha = (char: string) => {
+    return (char >= "a" && char <= "z") || (char >= "A" && char <= "Z") || char === "_";
+  };
+
+  const isAlphaNumeric = (char: string) => {
+    return isAlpha(char) || isDigit(char);
+  };
+
+  const isUpper = (char: string) => {
+    return char >= "A" && char <= "Z";
+  };
+
+  const scanTokens = () => {
+    let start_pos = 0;
+    let current_pos = 0;
+
+    const isAtEnd = () => current_pos >= source.length;
+    const peek = () => (current_pos >= source.length ? "\0" : source.charAt(current_pos));
+    const peekNext = () => (current_pos + 1 >= source.length ? "\0" : source.charAt(current_pos + 1));
+
+    const advance = () => {
+      current_pos++;
+      return source.charAt(current_pos - 1);
+    };
+
+    const push = (token: TokenKind) => {
+      tokens.push({ ...token, span: locate(start_pos, current_pos) });
+    };
+
+    const number = () => {
+      while (isDigit(peek())) {
+        advance();
+      }
+
+      if (peek() === "." && isDigit(peekNext())) {
+        advance();
+
+        while (isDigit(peek())) {
+          advance();
+        }
+      }
+
+      const text = source.substring(start_pos, current_pos);
+
+      if (!text.includes(".")) {
+        if (parseInt(text) > 2147483647) {
+          diagnostics.push(
+            Diagnostic.error(`Integer literal '${text}' is out of range`, locate(start_pos, current_pos))
+          );
+        } else {
+          push({ tag: "NUMBER", value: parseInt(text) });
+        }
+      } else if (Number.isFinite(parseFloat(text))) {
+        push({ tag: "FLOAT", value: parseFloat(text) });
+      } else {
+        diagnostics.push(Diagnostic.error(`Float literal '${text}' is out of range`, locate(start_pos, current_pos)));
+      }
+    };
+
+    const string = () => {
+      let value = "";
+
+      while (!isAtEnd() && peek() !== '"' && peek() !== "\n") {
+        const char = advance();
+
+        if (char !== "\\") {
+          value += char;
+          continue;
+        }
+
+        const escape = escapes.get(peek());
+
+        if (escape === undefined) {
+          const err = `Unknown escape sequence '\\${peek()}'`;
+          diagnostics.push(Diagnostic.error(err, locate(current_pos - 1, current_pos + 1)));
+        } else {
+          value += escape;
+        }
+
+        advance();
+      }
+
+      if (peek() !== '"') {
+        diagnostics.push(Diagnostic.error("Unterminated string literal", locate(start_pos, current_pos)));
+        return;
+      }
+
+      advance();
+      push({ tag: "STRING", value });
+    };
+
+    const identifier = () => {
+      while (isAlphaNumeric(peek())) {
+        advance();
+      }
+
+      // A capitalized name followed by '.' qualifies a name exported by a module.
+      if (isUpper(source.charAt(start_pos)) && peek() === "." && isAlpha(peekNext())) {
+        advance();
+
+        while (isAlphaNumeric(peek())) {
+          advance();
+        }
+      }
+
+      const value = source.substring(start_pos, current_pos);
+      const token = reserved.get(value);
+
+      if (token === undefined) {
+        push({ tag: "SYMBOL", value });
+      } else {
+        push(token);
+      }
+    };
+
+    const typeVariable = () => {
+      if (!isAlpha(peek())) {
+        diagnostics.push(Diagnostic.error("Expected a type variable name after '''", locate(start_pos, current_pos)));
+        return;
+      }
+
+      while (isAlphaNumeric(peek())) {
+        advance();
+      }
+
+      push({ tag: "TYVAR", value: source.substring(start_pos, current_pos) });
+    };
+
+    const matchToken = (expected: string) => {
+      if (isAtEnd()) return false;
+      if (source.charAt(current_pos) !== expected) return false;
+      return advance();
+    };
+
+    while (current_pos < source.length) {
+      start_pos = current_pos;
+      const char = advance();
+
+      switch (char) {
+        case " ":
+        case "\r":
+        case "\n":
+        case "\t":
+          break;
+        case "(":
+          push({ tag: "LPAREN" });
+          break;
+        case ")":
+          push({ tag: "RPAREN" });
+          break;
+        case "=":
+          if (matchToken(">")) {
+            push({ tag: "ARROW" });
+          } else if (matchToken("=")) {
+            push({ tag: "EQUAL_EQUAL" });
+          } else {
+            push({ tag: "EQUAL" });
+          }
+          break;
+        case "+":
+          push({ tag: "PLUS" });
+          break;
+        case "-":
+          push(matchToken(">") ? { tag: "THIN_ARROW" } : { tag: "MINUS" });
+          break;
+        case "|":
+          push({ tag: "BAR" });
+          break;
+        case "'":
+          typeVariable();
+          break;
+        case "*":
+          push({ tag: "STAR" });
+          break;
+        case "/":
+          if (matchToken("/")) {
+            while (!isAtEnd() && peek() !== "\n") {
+              advance();
+            }
+          } else {
+            push({ tag: "SLASH" });
+          }
+          break;
+        case "<":
+          push({ tag: "LESS" });
+          break;
+        case ";":
+          push({ tag: "SEMICOLON" });
+          break;
+        case ":":
+          push({ tag: "COLON" });
+          break;
+        case ",":
+          push({ tag: "COMMA" });
+          break;
+        case '"':
+          string();
+          break;
+        default:
+          if (isDigit(char)) {
+            number();
+          } else if (isAlpha(char)) {
+            identifier();
+          } else {
+            const err = `Unexpected character '${char}'`;
+            diagnostics.push(Diagnostic.error(err, locate(start_pos, current_pos)));
+          }
+
+          break;
+      }
+    }
+
+    start_pos = current_pos;
+    push({ tag: "EOF" });
+
+    if (diagnostics.length > 0) {
+      Diagnostic.raise(diagnostics);
+    }
+
+    return tokens;
+  };
+
+  return scanTokens();
+};
+
+const parser = (initial: Token[], module = false): Module => {
+  const tokens = initial.slice();
+  const diagnostics: DiagnosticType[] = [];
+
+  const binary = new Map<Token["tag"], Pair<Oper, number>>([
+    ["EQUAL_EQUAL", ["eq", 1]],
+    ["LESS", ["lt", 2]],
+    ["PLUS", ["add", 3]],
+    ["MINUS", ["sub", 3]],
+    ["STAR", ["mul", 4]],
+    ["SLASH", ["div", 4]],
+  ]);
+
+  const fail = (message?: string, span?: Span): never => {
+    const token = peek();
+    const unexpected = token.tag === "EOF" ? "Unexpected end of input" : `Unexpected token ${describe(token)}`;
+    const error = Diagnostic.error(message ?? unexpected, span ?? token.span);
+    return Diagnostic.raise([error]);
+  };
+
+  const isToken = <T extends Token["tag"]>(tag: T): ((token: Token) => token is Extract<Token, { tag: T }>) => {
+    return (token): token is Extract<Token, { tag: T }> => token.tag === tag;
+  };
+
+  const check = (tag: Token["tag"]) => {
+    return !isAtEnd() && isToken(tag)(peek());
+  };
+
+  const matchToken = (...tokens: Token["tag"][]): boolean => {
+    for (let i = 0; i < tokens.length; i++) {
+      if (check(tokens[i])) {
+        advance();
+        return true;
+      }
+    }
+
+    return false;
+  };
+
+  const consume = <T>(expect: (_: Token) => T) => {
+    const currentToken = peek();
+    const expectedValue = expect(currentToken);
+
+    advance();
+    return expectedValue;
+  };
+
+  const consumeToken = <T extends Token["tag"], R>(tag: T, callback?: (value: Extract<Token, { tag: T }>) => R): R => {
+    return consume((token) => {
+      if (!isToken(tag)(token)) {
+        return fail(`Expected ${lexemes[tag]}, but found ${describe(token)}`);
+      }
+
+      return callback ? callback(token) : (token as unknown as R);
+    });
+  };
+
+  const isAtEnd = () => {
+    return peek().tag == "EOF";
+  };
+
+  const advance = (): Token => {
+    if (!isAtEnd()) {
+      current++;
+    }
+
+    return previous();
+  };
+
+  const peek = (): Token => {
+    const token = tokens.at(current);
+
+    if (!token) {
+      throw new Error("undefined token");
+    }
+
+    return token;
+  };
+
+  const previous = (): Token => {
+    const token = tokens.at(current - 1);
+
+    if (!token) {
+      throw new Error("undefined token");
+    }
+
+    return token;
+  };
+
+  const report = (diagnostic: DiagnosticType) => {
+    const { offset } = diagnostic.span.start;
+
+    if (!diagnostics.some(({ span }) => span.start.offset === offset)) {
+      diagnostics.push(diagnostic);
+    }
+  };
+
+  const spanFrom = (start: Span): Span => {
+    return merge(start, previous().span);
+  };
+
+  // Skips to the ';' or ')' that ends the construct starting at token `from`;
+  // parentheses opened since then must close first, so the ')' of a call
+  // inside the construct is not taken for its end.
+  const synchronize = (from: number) => {
+    const open = (depth: number, token: Token) => {
+      return token.tag === "LPAREN" ? depth + 1 : token.tag === "RPAREN" ? Math.max(depth - 1, 0) : depth;
+    };
+
+    let depth = tokens.slice(from, current).reduce(open, 0);
+
+    while (!isAtEnd() && !(depth === 0 && (check("SEMICOLON") || check("RPAREN")))) {
+      depth = open(depth, advance());
+    }
+  };
+
+  // At the top level there is no enclosing construct, so skip past the next ';'
+  // or up to a keyword that starts a statement.
+  const resynchronize = () => {
+    while (
+      !isAtEnd() &&
+      !matchToken("SEMICOLON") &&
+      !check("LET") &&
+      !check("TYPE") &&
+      !check("EXTERN") &&
+      !check("IMPORT")
+    ) {
+      advance();
+    }
+  };
+
+  let failed = false;
+
+  // Records the error and skips past the failed construct, so the caller can
+  // keep going; the returned placeholder is never seen because parsing then fails.
+  const recover = (parse: () => Tree, skip: (from: number) => void = synchronize): Tree => {
+    const from = current;
+    const start = peek().span;
+
+    try {
+      return parse();
+    } catch (error) {
+      if (!Diagnostic.isCompileError(error)) {
+        throw error;
+      }
+
+      error.diagnostics.forEach(report);
+      failed = true;
+      skip(from);
+
+      return Var("_", spanFrom(start));
+    }
+  };
+
+  const parseNumber = (): Tree => {
+    return consumeToken("NUMBER", (token) => Num(token.value, token.span));
+  };
+
+  const parseFloat = (): Tree => {
+    return consumeToken("FLOAT", (token) => Float(token.value, token.span));
+  };
+
+  const parseString = (): Tree => {
+    return consumeToken("STRING", (token) => Str(token.value, token.span));
+  };
+
+  const isConstructor = (name: Name): boolean => {
+    return name.charAt(0) >= "A" && name.charAt(0) <= "Z" && !name.includes(".");
+  };
+
+  // Parses comma-separated items up to the closing ')', the '(' already consumed.
+  const parseList = <T>(parse: () => T): T[] => {
+    const items = [];
+
+    while (true) {
+      items.push(parse());
+
+      if (matchToken("COMMA")) {
+        continue;
+      }
+
+      consumeToken("RPAREN");
+      break;
+    }
+
+    return items;
+  };
+
+  const checkBinder = ({ value, span }: Extract<Token, { tag: "SYMBOL" }>) => {
+    if (value.includes(".")) {
+      report(Diagnostic.error(`Cannot bind the qualified name '${value}'`, span));
+    }
+
+    return { value, span };
+  };
+
+  const parseBinder = () => {
+    return checkBinder(consumeToken("SYMBOL", (token) => token));
+  };
+
+  // The declarations of a module run up to the end of its file, where linking
+  // puts the program that imports it; the empty tuple marks the spot.
+  const parseBody = (): Tree => {
+    return module && isAtEnd() ? Tuple([], peek().span) : expression();
+  };
+
+  const parseSymbol = (): Tree => {
+    const { value, span } = consumeToken("SYMBOL", (token) => token);
+
+    if (isConstructor(value)) {
+      const args = matchToken("LPAREN") ? parseList(() => recover(expression)) : [];
+      return Con(value, args, spanFrom(span));
+    }
+
+    return Var(value, span);
+  };
+
+  const parseParens = (): Tree => {
+    const start = consumeToken("LPAREN", (token) => token.span);
+    const items = parseList(() => recover(expression));
+
+    return items.length === 1 ? items[0] : Tuple(items, spanFrom(start));
+  };
+
+  const parseType = (): Type => {
+    const argm = parseTypeAtom();
+    return matchToken("THIN_ARROW") ? TyFun(argm, parseType()) : argm;
+  };
+
+  const parseTypeAtom = (): Type => {
+    if (isToken("TYVAR")(peek())) {
+      return consumeToken("TYVAR", (token) => TyVar(token.value));
+    }
+
+    if (matchToken("LPAREN")) {
+      const items = parseList(parseType);
+      return items.length === 1 ? items[0] : TyCon(tupleType, items);
+    }
+
+    const name = consumeToken("SYMBOL", (token) => token.value);
+    return TyCon(name, matchToken("LPAREN") ? parseList(parseType) : []);
+  };
+
+  const parseVariant = (): Variant => {
+    const { value, span } = consumeToken("SYMBOL", (token) => token);
+
+    if (!isConstructor(value)) {
+      report(Diagnostic.error(`Constructor '${value}' must start with an uppercase letter`, span));
+    }
+
+    const fields = matchToken("LPAREN") ? parseList(parseType) : [];
+    return { name: value, fields, span: spanFrom(span) };
+  };
+
+  const parseTypeDef = (start: Span): Tree => {
+    const name = consumeToken("SYMBOL", (token) => token.value);
+    const params = matchToken("LPAREN") ? parseList(() => consumeToken("TYVAR", (token) => token)) : [];
+
+    params
+      .filter(({ value }, idx) => params.findIndex((param) => param.value === value) !== idx)
+      .forEach(({ value, span }) => report(Diagnostic.error(`Duplicate type parameter ${value}`, span)));
+
+    consumeToken("EQUAL");
+    matchToken("BAR");
+
+    const ctors = [parseVariant()];
+
+    while (matchToken("BAR")) {
+      ctors.push(parseVariant());
+    }
+
+    consumeToken("SEMICOLON");
+    const body = parseBody();
+
+    return TypeDef(
+      name,
+      params.map(({ value }) => value),
+      ctors,
+      body,
+      spanFrom(start)
+    );
+  };
+
+  const parseExtern = (start: Span): Tree => {
+    const { value: name, span: site } = parseBinder();
+    consumeToken("COLON");
+    const arity = consumeToken("NUMBER", (token) => token);
+    consumeToken("EQUAL");
+    const symbol = consumeToken("STRING", (token) => token);
+    consumeToken("SEMICOLON");
+
+    if (arity.value < 1) {
+      report(Diagnostic.error(`Extern '${name}' must take at least one argument`, arity.span));
+    }
+
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(symbol.value)) {
+      report(Diagnostic.error(`${JSON.stringify(symbol.value)} is not a C identifier`, symbol.span));
+    }
+
+    const body = parseBody();
+
+    return Extern(name, site, arity.value, symbol.value, body, spanFrom(start));
+  };
+
+  const parsePattern = (): Pattern => {
+    const start = peek().span;
+
+    if (matchToken("TRUE")) return PLit(Bool(true, start), start);
+    if (matchToken("FALSE")) return PLit(Bool(false, start), start);
+    if (isToken("NUMBER")(peek())) return PLit(parseNumber(), start);
+    if (isToken("STRING")(peek())) return PLit(parseString(), start);
+
+    if (matchToken("MINUS")) {
+      const value = consumeToken("NUMBER", (token) => -token.value);
+      return PLit(Num(value, spanFrom(start)), spanFrom(start));
+    }
+
+    if (matchToken("LPAREN")) {
+      const items = parseList(parsePattern);
+      return items.length === 1 ? items[0] : PTuple(items, spanFrom(start));
+    }
+
+    const token = consumeToken("SYMBOL", (token) => token);
+    const name = token.value;
+
+    if (isConstructor(name)) {
+      const args = matchToken("LPAREN") ? parseList(parsePattern) : [];
+      return PCon(name, args, spanFrom(start));
+    }
+
+    checkBinder(token);
+
+    return name === "_" ? PWild(start) : PBind(name, start);
+  };
+
+  const parseMatch = (start: Span): Tree => {
+    const scrut = expression();
+    consumeToken("WITH");
+    matchToken("BAR");
+
+    const arms: Pair<Pattern, Tree>[] = [];
+
+    do {
+      const pattern = parsePattern();
+      consumeToken("ARROW");
+      arms.push([pattern, expression()]);
+    } while (matchToken("BAR"));
+
+    return Match(scrut, arms, spanFrom(start));
+  };
+
+  const parseLet = (start: Span): Tree => {
+    const { value: name, span: site } = parseBinder();
+    consumeToken("EQUAL");
+    const bind = recover(expression);
+    consumeToken("SEMICOLON");
+    const body = parseBody();
+
+    return Let(name, site, bind, body, spanFrom(start));
+  };
+
+  const parseRec = (start: Span): Tree => {
+    const binds: Pair<Name, Tree>[] = [];
+    const sites: Span[] = [];
+
+    do {
+      const { value: name, span: site } = parseBinder();
+      consumeToken("EQUAL");
+      const bind = recover(expression);
+
+      if (bind.tag !== "Lam") {
+        report(Diagnostic.error(`Recursive binding '${name}' must be a function`, bind.span));
+      }
+
+      binds.push([name, bind]);
+      sites.push(site);
+    } while (matchToken("AND"));
+
+    consumeToken("SEMICOLON");
+    const body = parseBody();
+
+    return Rec(binds, sites, body, spanFrom(start));
+  };
+
+  // Consecutive `def f(x, ...) = body;` declarations form one recursive group.
+  const parseDefs = (start: Span): Tree => {
+    const binds: Pair<Name, Tree>[] = [];
+    const sites: Span[] = [];
+
+    do {
+      const from = peek().span;
+      const { value: name, span: site } = parseBinder();
+      sites.push(site);
+      consumeToken("LPAREN");
+      const params = parseList(parseBinder);
+
+      params
+        .filter(({ value }, idx) => params.findIndex((param) => param.value === value) !== idx)
+        .forEach(({ value, span }) => report(Diagnostic.error(`Duplicate parameter '${value}'`, span)));
+
+      consumeToken("EQUAL");
+      const body = recover(expression);
+      binds.push([
+        name,
+        Lam(
+          params.map(({ value }) => value),
+          params.map(({ span }) => span),
+          body,
+          spanFrom(from)
+        ),
+      ]);
+      consumeToken("SEMICOLON");
+    } while (matchToken("DEF"));
+
+    return Rec(binds, sites, parseBody(), spanFrom(start));
+  };
+
+  const parseFun = (start: Span): Tree => {
+    const params: Prop[] = [];
+    const sites: Span[] = [];
+
+    do {
+      const param = parseBinder();
+
+      if (params.includes(param.value)) {
+        report(Diagnostic.error(`Duplicate parameter '${param.value}'`, param.span));
+      }
+
+      params.push(param.value);
+      sites.push(param.span);
+    } while (matchToken("COMMA"));
+
+    consumeToken("ARROW");
+    const body = expression();
+
+    return Lam(params, sites, body, spanFrom(start));
+  };
+
+  const parseIf = (start: Span): Tree => {
+    const cond = expression();
+    consumeToken("THEN");
+    const conseq = expression();
+    consumeToken("ELSE");
+    const alter = expression();
+
+    return If(cond, conseq, alter, spanFrom(start));
+  };
+
+  const parseAtom = (): Tree => {
+    if (matchToken("TRUE")) return Bool(true, previous().span);
+    if (matchToken("FALSE")) return Bool(false, previous().span);
+    if (isToken("NUMBER")(peek())) return parseNumber();
+    if (isToken("FLOAT")(peek())) return parseFloat();
+    if (isToken("STRING")(peek())) return parseString();
+    if (isToken("SYMBOL")(peek())) return parseSymbol();
+    if (isToken("LPAREN")(peek())) return parseParens();
+
+    return fail();
+  };
+
+  const parseApp = (): Tree => {
+    let func = parseAtom();
+
+    while (matchToken("LPAREN")) {
+      func = parseCall(func);
+    }
+
+    return func;
+  };
+
+  const parseCall = (func: Tree): Tree => {
+    const args = parseList(() => recover(expression));
+    return App(func, args, spanFrom(func.span));
+  };
+
+  const parseUnary = (): Tree => {
+    const start = peek().span;
+
+    if (matchToken("MINUS")) {
+      const argm = parseUnary();
+      return Una("neg", argm, spanFrom(start));
+    }
+
+    return parseApp();
+  };
+
+  const parseBinary = (minPrec: number): Tree => {
+    let lhs = parseUnary();
+
+    while (true) {
+      const entry = binary.get(peek().tag);
+
+      if (!entry || entry[1] < minPrec) {
+        break;
+      }
+
+      advance();
+
+      const [oper, prec] = entry;
+      const rhs = parseBinary(prec + 1);
+      lhs = Bin(oper, lhs, rhs, merge(lhs.span, rhs.span));
+    }
+
+    return lhs;
+  };
+
+  const expression = (): Tree => {
+    const start = peek().span;
+
+    if (matchToken("LET")) return matchToken("REC") ? parseRec(start) : parseLet(start);
+    if (matchToken("FUN")) return parseFun(start);
+    if (matchToken("DEF")) return parseDefs(start);
+    if (matchToken("IF")) return parseIf(start);
+    if (matchToken("TYPE")) return parseTypeDef(start);
+    if (matchToken("MATCH")) return parseMatch(start);
+    if (matchToken("EXTERN")) return parseExtern(start);
+
+    if (matchToken("IMPORT")) {
+      report(Diagnostic.error("Imports must come before the rest of the program", start));
+      parseImport();
+      return expression();
+    }
+
+    return parseBinary(0);
+  };
+
+  // `import "dir/name.wc";` names the module after its file, and `import Name;`
+  // reads it from name.wc, with the first letter lowered.
+  const parseImport = (): Import => {
+    if (isToken("STRING")(peek())) {
+      const { value, span } = consumeToken("STRING", (token) => token);
+      const base = path.basename(value, path.extname(value));
+
+      if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(base)) {
+        report(Diagnostic.error(`Cannot name a module after the file ${JSON.stringify(value)}`, span));
+      }
+
+      consumeToken("SEMICOLON");
+      return { name: base.charAt(0).toUpperCase() + base.slice(1), file: value, span };
+    }
+
+    const { value, span } = consumeToken("SYMBOL", (token) => token);
+
+    if (!/^[A-Z][A-Za-z0-9_]*$/.test(value)) {
+      report(Diagnostic.error(`'${value}' is not a module name`, span, "module names start with an uppercase letter"));
+    }
+
+    consumeToken("SEMICOLON");
+    return { name: value, file: `${value.charAt(0).toLowerCase()}${value.slice(1)}.wc`, span };
+  };
+
+  const program = (): Module => {
+    const imports: Import[] = [];
+
+    while (matchToken("IMPORT")) {
+      imports.push(parseImport());
+    }
+
+    const tree = module && isAtEnd() ? Tuple([], peek().span) : recover(expression, resynchronize);
+
+    // Whatever follows a failed statement was skipped to a statement boundary
+    // and is parsed on its own; after a complete program it is unexpected.
+    while (!isAtEnd()) {
+      const from = current;
+
+      if (!failed) {
+        report(Diagnostic.error(`Unexpected token ${describe(peek())}`, peek().span));
+        resynchronize();
+      }
+
+      failed = false;
+
+      if (!isAtEnd()) {
+        recover(expression, resynchronize);
+      }
+
+      if (current === from) {
+        advance();
+      }
+    }
+
+    if (diagnostics.length > 0) {
+      Diagnostic.raise(diagnostics);
+    }
+
+    return { imports, tree };
+  };
+
+  let current = 0;
+
+  return program();
+};
+
+export type { Token };
+export { scanner, parser };
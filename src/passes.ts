@@ -0,0 +1,702 @@
+import { makeContext, Context } from "./lib/context";
+import { makeState, State } from "./lib/state";
+import { match } from "./lib/helpers";
+import { Pair } from "./lib/pair";
+import { Error as GenericError } from "./lib/error";
+import { Span } from "./lib/diagnostic";
+import { Name, Oper, Prop, Tree, show } from "./syntax";
+import { VBool, VFloat, VInt, VStr, Value, evaluatePrim } from "./interpret";
+import { Renaming, rename } from "./rename";
+import {
+  EApp,
+  EBool,
+  ECall,
+  ECls,
+  EData,
+  EField,
+  EFloat,
+  EForeign,
+  EIf,
+  EIs,
+  ELet,
+  ENum,
+  EPrim,
+  ERec,
+  ERef,
+  EStr,
+  ETail,
+  Expr,
+  Prog,
+  TDecl,
+  TMain,
+  TStatic,
+  Topl,
+  convertCls,
+  shadow,
+  showD,
+  substitute,
+} from "./closure";
+
+type Pass = "fold" | "copy" | "inline" | "direct" | "dead";
+
+const mapExpr = (expr: Expr, f: (expr: Expr) => Expr): Expr =>
+  match(expr)({
+    Num: () => expr,
+    Float: () => expr,
+    Str: () => expr,
+    Bool: () => expr,
+    Ref: () => expr,
+    Idx: () => expr,
+    Cls: ({ prop, arity, body }) =>
+      ECls(
+        prop,
+        arity,
+        body.map((x) => f(x))
+      ),
+    App: ({ func, args, site }) =>
+      EApp(
+        func,
+        args.map((x) => f(x)),
+        site
+      ),
+    Tail: ({ func, args, site }) =>
+      ETail(
+        func,
+        args.map((x) => f(x)),
+        site
+      ),
+    Call: ({ prop, func, args, site }) =>
+      ECall(
+        prop,
+        func,
+        args.map((x) => f(x)),
+        site
+      ),
+    Prim: ({ oper, args }) =>
+      EPrim(
+        oper,
+        args.map((x) => f(x))
+      ),
+    Let: ({ name, bind, body }) => ELet(name, f(bind), f(body)),
+    Rec: ({ binds, body }) =>
+      ERec(
+        binds.map(([name, bind]): Pair<Name, Expr> => [name, f(bind)]),
+        f(body)
+      ),
+    If: ({ cond, conseq, alter }) => EIf(f(cond), f(conseq), f(alter)),
+    Data: ({ ctor, args }) =>
+      EData(
+        ctor,
+        args.map((x) => f(x))
+      ),
+    Field: ({ base, idx }) => EField(f(base), idx),
+    Is: ({ base, ctor }) => EIs(f(base), ctor),
+    Fail: () => expr,
+    Foreign: ({ symbol, args }) =>
+      EForeign(
+        symbol,
+        args.map((x) => f(x))
+      ),
+  });
+
+const children = (expr: Expr): Expr[] =>
+  match(expr)({
+    Num: () => [],
+    Float: () => [],
+    Str: () => [],
+    Bool: () => [],
+    Ref: () => [],
+    Idx: () => [],
+    Cls: ({ body }) => body,
+    App: ({ args }) => args,
+    Tail: ({ args }) => args,
+    Call: ({ args }) => args,
+    Prim: ({ args }) => args,
+    Let: ({ bind, body }) => [bind, body],
+    Rec: ({ binds, body }) => [...binds.map(([_, bind]) => bind), body],
+    If: ({ cond, conseq, alter }) => [cond, conseq, alter],
+    Data: ({ args }) => args,
+    Field: ({ base }) => [base],
+    Is: ({ base }) => [base],
+    Fail: () => [],
+    Foreign: ({ args }) => args,
+  });
+
+const mapBodies = (prog: Prog, f: (expr: Expr) => Expr): Prog => {
+  return prog.map((topl) =>
+    match(topl)({
+      Decl: ({ free, name, env, props, body, origin }) => TDecl(free, name, env, props, f(body), origin),
+      Enum: () => topl,
+      Proto: () => topl,
+      Static: () => topl,
+      Main: ({ expr }) => TMain(f(expr)),
+    })
+  );
+};
+
+const occurrences = (expr: Expr): Name[] =>
+  match(expr)({
+    Num: () => [],
+    Float: () => [],
+    Str: () => [],
+    Bool: () => [],
+    Ref: ({ data }) => [data],
+    Idx: ({ data }) => [data],
+    Cls: ({ body }) => body.flatMap((x) => occurrences(x)),
+    App: ({ func, args }) => [func, ...args.flatMap((x) => occurrences(x))],
+    Tail: ({ func, args }) => [func, ...args.flatMap((x) => occurrences(x))],
+    Call: ({ func, args }) => [func, ...args.flatMap((x) => occurrences(x))],
+    Prim: ({ args }) => args.flatMap((x) => occurrences(x)),
+    Let: ({ name, bind, body }) => [...occurrences(bind), ...occurrences(body).filter((x) => x !== name)],
+    Rec: ({ binds, body }) => {
+      const names = binds.map(([name]) => name);
+      const inner = [...binds.flatMap(([_, bind]) => occurrences(bind)), ...occurrences(body)];
+      return inner.filter((x) => !names.includes(x));
+    },
+    If: ({ cond, conseq, alter }) => [...occurrences(cond), ...occurrences(conseq), ...occurrences(alter)],
+    Data: ({ args }) => args.flatMap((x) => occurrences(x)),
+    Field: ({ base }) => occurrences(base),
+    Is: ({ base }) => occurrences(base),
+    Fail: () => [],
+    Foreign: ({ args }) => args.flatMap((x) => occurrences(x)),
+  });
+
+const countUses = (name: Name, expr: Expr): number => {
+  return occurrences(expr).filter((x) => x === name).length;
+};
+
+const isPure = (expr: Expr): boolean =>
+  match(expr)({
+    Num: () => true,
+    Float: () => true,
+    Str: () => true,
+    Bool: () => true,
+    Ref: () => true,
+    Idx: () => true,
+    Cls: () => true,
+    App: () => false,
+    Tail: () => false,
+    Call: () => false,
+    Prim: ({ oper, args: [_, rhs] }) => oper !== "div" || rhs.tag === "Float" || (rhs.tag === "Num" && rhs.data !== 0),
+    Let: ({ bind, body }) => isPure(bind) && isPure(body),
+    Rec: ({ body }) => isPure(body),
+    If: ({ conseq, alter }) => isPure(conseq) && isPure(alter),
+    Data: () => true,
+    Field: () => true,
+    Is: () => true,
+    Fail: () => false,
+    Foreign: () => false,
+  });
+
+const literal = (expr: Expr): Value[] => {
+  switch (expr.tag) {
+    case "Num":
+      return [VInt(expr.data)];
+    case "Float":
+      return [VFloat(expr.data)];
+    case "Str":
+      return [VStr(expr.data)];
+    case "Bool":
+      return [VBool(expr.data)];
+    default:
+      return [];
+  }
+};
+
+const foldPrim = (oper: Oper, args: Expr[]): Expr => {
+  const values = args.flatMap((arg) => literal(arg));
+
+  if (values.length !== args.length) {
+    return EPrim(oper, args);
+  }
+
+  try {
+    return match(evaluatePrim(oper, values))({
+      Int: ({ value }) => ENum(value),
+      Float: ({ value }) => (Number.isFinite(value) ? EFloat(value) : EPrim(oper, args)),
+      Str: ({ value }) => EStr(value),
+      Bool: ({ value }) => EBool(value),
+      Closure: () => EPrim(oper, args),
+      Data: () => EPrim(oper, args),
+      Native: () => EPrim(oper, args),
+      Code: () => EPrim(oper, args),
+    });
+  } catch (error) {
+    if (GenericError.isGenericException(error)) {
+      return EPrim(oper, args);
+    }
+
+    throw error;
+  }
+};
+
+const fold = (expr: Expr): Expr => {
+  const inner = mapExpr(expr, (x) => fold(x));
+
+  if (inner.tag === "Prim") {
+    return foldPrim(inner.oper, inner.args);
+  }
+
+  if (inner.tag === "If" && inner.cond.tag === "Bool") {
+    return inner.cond.data ? inner.conseq : inner.alter;
+  }
+
+  return inner;
+};
+
+const binders = (expr: Expr): Name[] => {
+  const own = expr.tag === "Let" ? [expr.name] : expr.tag === "Rec" ? expr.binds.map(([name]) => name) : [];
+  return [...own, ...children(expr).flatMap((x) => binders(x))];
+};
+
+const copy = (expr: Expr): Expr => {
+  const inner = mapExpr(expr, (x) => copy(x));
+
+  if (inner.tag !== "Let" || !["Num", "Float", "Str", "Bool", "Ref", "Idx"].includes(inner.bind.tag)) {
+    return inner;
+  }
+
+  const { name, bind, body } = inner;
+
+  if (bind.tag === "Ref" && binders(body).includes(bind.data)) {
+    return inner;
+  }
+
+  const newBody = substitute(makeContext([[name, bind]]), body);
+  return countUses(name, newBody) === 0 ? newBody : ELet(name, bind, newBody);
+};
+
+const freshen = (state: State, expr: Expr): Expr => {
+  const fresh = () => `_${state.next()[0]}`;
+
+  if (expr.tag === "Let") {
+    const name = fresh();
+    const body = substitute(makeContext([[expr.name, ERef(name)]]), expr.body);
+    return ELet(name, freshen(state, expr.bind), freshen(state, body));
+  }
+
+  if (expr.tag === "Rec") {
+    const names = expr.binds.map(() => fresh());
+    const map = makeContext(expr.binds.map(([name], idx): [Name, Expr] => [name, ERef(names[idx])]));
+    const binds = expr.binds.map(([_, bind], idx): Pair<Name, Expr> => [
+      names[idx],
+      freshen(state, substitute(map, bind)),
+    ]);
+
+    return ERec(binds, freshen(state, substitute(map, expr.body)));
+  }
+
+  return mapExpr(expr, (x) => freshen(state, x));
+};
+
+const substituteEnv = (env: Prop, slots: Expr[], expr: Expr): Expr => {
+  if (expr.tag === "Idx" && expr.data === env) {
+    return slots[expr.idx];
+  }
+
+  return mapExpr(expr, (x) => substituteEnv(env, slots, x));
+};
+
+const replaceApp = (name: Name, expand: (args: Expr[]) => Expr, expr: Expr): Expr => {
+  if (expr.tag === "App" && expr.func === name) {
+    return expand(expr.args);
+  }
+
+  if (expr.tag === "Let" && expr.name === name) {
+    return ELet(name, replaceApp(name, expand, expr.bind), expr.body);
+  }
+
+  if (expr.tag === "Rec" && expr.binds.some(([bound]) => bound === name)) {
+    return expr;
+  }
+
+  return mapExpr(expr, (x) => replaceApp(name, expand, x));
+};
+
+type Decls = Map<Name, Extract<Topl, { tag: "Decl" }>>;
+
+const inline = (decls: Decls, state: State, expr: Expr): Expr => {
+  const inner = mapExpr(expr, (x) => inline(decls, state, x));
+
+  if (inner.tag !== "Let" || inner.bind.tag !== "Cls" || countUses(inner.name, inner.body) !== 1) {
+    return inner;
+  }
+
+  const { name, bind, body } = inner;
+  const decl = decls.get(bind.prop);
+
+  if (decl === undefined || bind.arity !== decl.props.length) {
+    return inner;
+  }
+
+  const expand = (args: Expr[]): Expr => {
+    if (args.length !== bind.arity) {
+      return EApp(name, args, null);
+    }
+
+    const params = makeContext(decl.props.map((prop, idx): [Name, Expr] => [prop, args[idx]]));
+    return substituteEnv(decl.env, bind.body, substitute(params, freshen(state, decl.body)));
+  };
+
+  const newBody = replaceApp(name, expand, body);
+  return countUses(name, newBody) === 0 ? newBody : inner;
+};
+
+const inlineProg = (prog: Prog): Prog => {
+  const decls: Decls = new Map(prog.flatMap((topl) => (topl.tag === "Decl" ? [[topl.name, topl]] : [])));
+  const names = prog.flatMap((topl) =>
+    match(topl)({
+      Decl: ({ name, env, body }) => [name, env, ...binders(body)],
+      Enum: () => [],
+      Proto: () => [],
+      Static: () => [],
+      Main: ({ expr }) => binders(expr),
+    })
+  );
+
+  const state = makeState();
+  state.curr = Math.max(0, ...names.map((name) => Number(/\d+$/.exec(name)?.[0] ?? 0)));
+
+  return mapBodies(prog, (expr) => inline(decls, state, expr));
+};
+
+const direct = (known: Context<Expr>, expr: Expr): Expr => {
+  const callee = (func: Name, args: Expr[], site: Span | null): Expr =>
+    match(known.get(func))({
+      Some: ({ value }) =>
+        value.tag === "Cls" && value.arity === args.length
+          ? ECall(value.prop, func, args, site)
+          : EApp(func, args, site),
+      None: ({}) => EApp(func, args, site),
+    });
+
+  if (expr.tag === "App") {
+    return callee(expr.func, expr.args, expr.site);
+  }
+
+  if (expr.tag === "Let") {
+    const scope = shadow(known, [expr.name]);
+
+    if (expr.bind.tag === "Cls") {
+      scope.set(expr.name, expr.bind);
+    }
+
+    return ELet(expr.name, direct(known, expr.bind), direct(scope, expr.body));
+  }
+
+  if (expr.tag === "Rec") {
+    const scope = makeContext([...known.map, ...expr.binds]);
+    const binds = expr.binds.map(([name, bind]): Pair<Name, Expr> => [name, direct(scope, bind)]);
+
+    return ERec(binds, direct(scope, expr.body));
+  }
+
+  return mapExpr(expr, (x) => direct(known, x));
+};
+
+const dead = (expr: Expr): Expr => {
+  const inner = mapExpr(expr, (x) => dead(x));
+
+  if (inner.tag === "Let" && countUses(inner.name, inner.body) === 0 && isPure(inner.bind)) {
+    return inner.body;
+  }
+
+  if (inner.tag === "Rec" && inner.binds.every(([name]) => countUses(name, inner.body) === 0)) {
+    return inner.body;
+  }
+
+  return inner;
+};
+
+const codeRefs = (expr: Expr): Prop[] => {
+  const own = expr.tag === "Cls" || expr.tag === "Call" ? [expr.prop] : [];
+  return [...own, ...children(expr).flatMap((x) => codeRefs(x))];
+};
+
+const prune = (prog: Prog): Prog => {
+  const decls: Decls = new Map(prog.flatMap((topl) => (topl.tag === "Decl" ? [[topl.name, topl]] : [])));
+  const live = new Set<Prop>();
+  const work = prog.flatMap((topl) => (topl.tag === "Main" ? codeRefs(topl.expr) : []));
+
+  for (let prop = work.pop(); prop !== undefined; prop = work.pop()) {
+    const decl = decls.get(prop);
+
+    if (decl !== undefined && !live.has(prop)) {
+      live.add(prop);
+      work.push(...codeRefs(decl.body));
+    }
+  }
+
+  return prog.filter((topl) => topl.tag !== "Decl" || live.has(topl.name));
+};
+
+const passes: Record<Pass, (prog: Prog) => Prog> = {
+  fold: (prog) => mapBodies(prog, (expr) => fold(expr)),
+  copy: (prog) => mapBodies(prog, (expr) => copy(expr)),
+  inline: (prog) => inlineProg(prog),
+  direct: (prog) => mapBodies(prog, (expr) => direct(makeContext(), expr)),
+  dead: (prog) => prune(mapBodies(prog, (expr) => dead(expr))),
+};
+
+const passOrder: Pass[] = ["fold", "copy", "inline", "direct", "dead"];
+
+type Dump = (pass: Pass, before: Prog, after: Prog) => void;
+
+const showProg = (prog: Prog): string => {
+  return prog.map((topl) => showD(topl)).join("\n");
+};
+
+// Passes run in passOrder, in rounds, until a round leaves the program unchanged.
+const optimize = (prog: Prog, enabled: Pass[], dump?: Dump): Prog => {
+  const pipeline = passOrder.filter((pass) => enabled.includes(pass));
+  let current = prog;
+
+  for (let round = 0; round < 8; round++) {
+    const next = pipeline.reduce((before, pass) => {
+      const after = passes[pass](before);
+
+      if (dump && showProg(before) !== showProg(after)) {
+        dump(pass, before, after);
+      }
+
+      return after;
+    }, current);
+
+    if (showProg(next) === showProg(current)) {
+      break;
+    }
+
+    current = next;
+  }
+
+  return current;
+};
+
+// Lambda lifting
+
+const staticName = (prop: Prop): Name => `${prop}_closure`;
+
+// Closures whose environment holds nothing but other such closures, like
+// top-level functions, are built once as static objects instead: their code
+// reads those closures from globals rather than from its environment, and a
+// call to one with as many arguments as it takes jumps straight to its code.
+// Starts from every closure and drops those capturing anything else until
+// none do, so recursive groups lift together. Two closures over the same code
+// must capture the same closures to be lifted.
+const lift = (prog: Prog): Prog => {
+  const walk = (expr: Expr): Expr[] => [expr, ...children(expr).flatMap((x) => walk(x))];
+  const nodes = prog.flatMap((topl) =>
+    topl.tag === "Decl" ? walk(topl.body) : topl.tag === "Main" ? walk(topl.expr) : []
+  );
+
+  const bound = new Map(
+    nodes.flatMap((expr): Pair<Name, Expr>[] =>
+      expr.tag === "Let" ? [[expr.name, expr.bind]] : expr.tag === "Rec" ? expr.binds : []
+    )
+  );
+
+  const slotCode = (slot: Expr): Prop | undefined => {
+    const value = slot.tag === "Ref" ? bound.get(slot.data) : slot;
+    return value?.tag === "Cls" ? value.prop : undefined;
+  };
+
+  const lifted = new Map<Prop, (Prop | undefined)[]>();
+  const arities = new Map<Prop, number>();
+  const mixed = new Set<Prop>();
+
+  nodes.forEach((expr) => {
+    if (expr.tag !== "Cls") {
+      return;
+    }
+
+    const slots = expr.body.map((slot) => slotCode(slot));
+    const seen = lifted.get(expr.prop);
+
+    if (seen !== undefined && seen.some((slot, idx) => slot !== slots[idx])) {
+      mixed.add(expr.prop);
+    }
+
+    lifted.set(expr.prop, slots);
+    arities.set(expr.prop, expr.arity);
+  });
+
+  mixed.forEach((prop) => lifted.delete(prop));
+
+  for (let changed = true; changed;) {
+    changed = false;
+
+    lifted.forEach((slots, prop) => {
+      if (slots.some((slot) => slot === undefined || !lifted.has(slot))) {
+        lifted.delete(prop);
+        changed = true;
+      }
+    });
+  }
+
+  const known = new Map([...lifted.keys()].map((prop): Pair<Name, Prop> => [staticName(prop), prop]));
+
+  const rewrite = (expr: Expr): Expr => {
+    switch (expr.tag) {
+      case "Cls":
+        return lifted.has(expr.prop) ? ERef(staticName(expr.prop)) : mapExpr(expr, rewrite);
+      case "Let": {
+        const bind = rewrite(expr.bind);
+        const prop = bind.tag === "Ref" ? known.get(bind.data) : undefined;
+
+        if (prop !== undefined) {
+          known.set(expr.name, prop);
+        }
+
+        return ELet(expr.name, bind, rewrite(expr.body));
+      }
+      case "Rec": {
+        const moved = expr.binds.flatMap(([name, bind]): Pair<Name, Prop>[] =>
+          bind.tag === "Cls" && lifted.has(bind.prop) ? [[name, bind.prop]] : []
+        );
+        moved.forEach(([name, prop]) => known.set(name, prop));
+
+        const binds = expr.binds
+          .filter(([name]) => !known.has(name))
+          .map(([name, bind]): Pair<Name, Expr> => [name, rewrite(bind)]);
+        const body = binds.length === 0 ? rewrite(expr.body) : ERec(binds, rewrite(expr.body));
+
+        return moved.reduceRight((rest, [name, prop]) => ELet(name, ERef(staticName(prop)), rest), body);
+      }
+      case "App": {
+        const prop = known.get(expr.func);
+        const args = expr.args.map((arg) => rewrite(arg));
+
+        return prop !== undefined && arities.get(prop) === args.length
+          ? ECall(prop, expr.func, args, expr.site)
+          : EApp(expr.func, args, expr.site);
+      }
+      default:
+        return mapExpr(expr, rewrite);
+    }
+  };
+
+  const statics = [...lifted.keys()].map((prop) => TStatic(prop, arities.get(prop) ?? 0));
+  const liftedProg = prog.map((topl) => {
+    const slots = topl.tag === "Decl" ? lifted.get(topl.name) : undefined;
+
+    if (topl.tag !== "Decl" || slots === undefined) {
+      return topl;
+    }
+
+    const globals = slots.flatMap((slot) => (slot === undefined ? [] : [ERef(staticName(slot))]));
+    return TDecl(0, topl.name, topl.env, topl.props, substituteEnv(topl.env, globals, topl.body), topl.origin);
+  });
+
+  return [...statics, ...mapBodies(liftedProg, rewrite)];
+};
+
+// Tail calls
+
+const markTail = (expr: Expr): Expr =>
+  match(expr)({
+    Num: () => expr,
+    Float: () => expr,
+    Str: () => expr,
+    Bool: () => expr,
+    Ref: () => expr,
+    Idx: () => expr,
+    Cls: () => expr,
+    Prim: () => expr,
+    Tail: () => expr,
+    App: ({ func, args, site }) => ETail(func, args, site),
+    Call: ({ func, args }) => ETail(func, args, null),
+    Let: ({ name, bind, body }) => ELet(name, bind, markTail(body)),
+    Rec: ({ binds, body }) => ERec(binds, markTail(body)),
+    If: ({ cond, conseq, alter }) => EIf(cond, markTail(conseq), markTail(alter)),
+    Data: () => expr,
+    Field: () => expr,
+    Is: () => expr,
+    Fail: () => expr,
+    Foreign: () => expr,
+  });
+
+// Calls in tail position of a closure body become Tail nodes, which hand the
+// callee back to the runtime's trampoline instead of growing the C stack.
+const trampoline = (prog: Prog): Prog => {
+  return prog.map((topl) =>
+    match(topl)({
+      Decl: ({ free, name, env, props, body, origin }) => TDecl(free, name, env, props, markTail(body), origin),
+      Enum: () => topl,
+      Proto: () => topl,
+      Static: () => topl,
+      Main: () => topl,
+    })
+  );
+};
+
+// Pass manager
+
+// The steps between typechecking and code generation: phases over the tree,
+// closure conversion, then phases over the closure IR. Each list can be
+// rearranged, and custom phases inserted with insertPass, before running it.
+type Phase<T> = { name: string; run: (ir: T) => T };
+type PassManager = { tree: Phase<Tree>[]; prog: Phase<Prog>[] };
+type Placement = { before: string } | { after: string };
+
+// Called with the name of every stage and phase, and the IR it produced.
+type StageDump = (stage: string, ir: string) => void;
+
+// The rename phase records the source name and binding site of every
+// identifier it makes in `names`, for the debug info of the C code.
+const makePassManager = (enabled: Pass[], tail: boolean, dump?: Dump, names: Renaming = new Map()): PassManager => {
+  const prog: Phase<Prog>[] = [
+    { name: "optimize", run: (prog) => optimize(prog, enabled, dump) },
+    { name: "lift", run: lift },
+  ];
+
+  return {
+    tree: [
+      {
+        name: "rename",
+        run: (tree) => {
+          const [renamed, found] = rename(tree);
+          found.forEach((binder, name) => names.set(name, binder));
+          return renamed;
+        },
+      },
+    ],
+    prog: tail ? [...prog, { name: "trampoline", run: trampoline }] : prog,
+  };
+};
+
+// Puts a phase next to the one it names, or last without a placement.
+const insertPass = <T>(phases: Phase<T>[], phase: Phase<T>, placement?: Placement): Phase<T>[] => {
+  if (placement === undefined) {
+    return [...phases, phase];
+  }
+
+  const anchor = "before" in placement ? placement.before : placement.after;
+  const idx = phases.findIndex(({ name }) => name === anchor);
+
+  if (idx < 0) {
+    throw new Error(`unknown pass "${anchor}"`);
+  }
+
+  const at = "before" in placement ? idx : idx + 1;
+  return [...phases.slice(0, at), phase, ...phases.slice(at)];
+};
+
+const runPhases = <T>(phases: Phase<T>[], ir: T, showIR: (ir: T) => string, dump?: StageDump): T => {
+  return phases.reduce((before, { name, run }) => {
+    const after = run(before);
+    dump?.(name, showIR(after));
+
+    return after;
+  }, ir);
+};
+
+const runPasses = (manager: PassManager, tree: Tree, dump?: StageDump): Prog => {
+  const prepared = runPhases(manager.tree, tree, show, dump);
+  const converted = convertCls(prepared);
+  dump?.("convert", showProg(converted));
+
+  return runPhases(manager.prog, converted, showProg, dump);
+};
+
+export type { Pass, Phase, PassManager, Placement, StageDump };
+export { passOrder, showProg, optimize, staticName, lift, trampoline, makePassManager, insertPass, runPasses };
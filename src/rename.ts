@@ -0,0 +1,142 @@
+import { makeContext, Context } from "./lib/context";
+import { makeState } from "./lib/state";
+import { match } from "./lib/helpers";
+import { Pair } from "./lib/pair";
+import { Span } from "./lib/diagnostic";
+import {
+  App,
+  Bin,
+  Con,
+  Extern,
+  If,
+  Lam,
+  Let,
+  Match,
+  Name,
+  PBind,
+  PCon,
+  PTuple,
+  Pattern,
+  Rec,
+  Tree,
+  Tuple,
+  TypeDef,
+  Una,
+  Var,
+  patternBinders,
+} from "./syntax";
+
+// Every binder gets a fresh `v_<name>_<n>` identifier, so shadowed names get
+// distinct C locals and no source name can collide with a C keyword, a runtime
+// symbol or the envN/clsN/_N names produced by closure conversion. Each one
+// maps back to the source name and the span of the construct that binds it.
+type Binder = { name: Name; span: Span };
+type Renaming = Map<Name, Binder>;
+
+const resolveName = (scope: Context<Name>, name: Name): Name =>
+  match(scope.get(name))({
+    Some: ({ value }) => value,
+    None: ({}) => name,
+  });
+
+const renameTree = (fresh: (name: Name, span: Span) => Name, scope: Context<Name>, tree: Tree): Tree => {
+  const within = (binders: Pair<Name, Span>[]): Context<Name> => {
+    return makeContext([...scope.map, ...binders.map(([name, site]): [Name, Name] => [name, fresh(name, site)])]);
+  };
+
+  return match(tree)({
+    Num: () => tree,
+    Float: () => tree,
+    Str: () => tree,
+    Bool: () => tree,
+    Var: ({ data, span }) => Var(resolveName(scope, data), span),
+    Bin: ({ oper, lhs, rhs, span }) => Bin(oper, renameTree(fresh, scope, lhs), renameTree(fresh, scope, rhs), span),
+    Una: ({ oper, argm, span }) => Una(oper, renameTree(fresh, scope, argm), span),
+    Lam: ({ props, sites, body, span }) => {
+      const inner = within(props.map((prop, idx): Pair<Name, Span> => [prop, sites[idx]]));
+      const newProps = props.map((prop) => resolveName(inner, prop));
+      return Lam(newProps, sites, renameTree(fresh, inner, body), span);
+    },
+    App: ({ func, args, span }) =>
+      App(
+        renameTree(fresh, scope, func),
+        args.map((arg) => renameTree(fresh, scope, arg)),
+        span
+      ),
+    Let: ({ name, site, bind, body, span }) => {
+      const inner = within([[name, site]]);
+      const newBind = renameTree(fresh, scope, bind);
+      return Let(resolveName(inner, name), site, newBind, renameTree(fresh, inner, body), span);
+    },
+    Rec: ({ binds, sites, body, span }) => {
+      const inner = within(binds.map(([name], idx): Pair<Name, Span> => [name, sites[idx]]));
+      const newBinds = binds.map(([name, bind]): Pair<Name, Tree> => [
+        resolveName(inner, name),
+        renameTree(fresh, inner, bind),
+      ]);
+      return Rec(newBinds, sites, renameTree(fresh, inner, body), span);
+    },
+    If: ({ cond, conseq, alter, span }) =>
+      If(renameTree(fresh, scope, cond), renameTree(fresh, scope, conseq), renameTree(fresh, scope, alter), span),
+    Tuple: ({ items, span }) =>
+      Tuple(
+        items.map((item) => renameTree(fresh, scope, item)),
+        span
+      ),
+    Con: ({ name, args, span }) =>
+      Con(
+        name,
+        args.map((arg) => renameTree(fresh, scope, arg)),
+        span
+      ),
+    Match: ({ scrut, arms, span }) => {
+      const newArms = arms.map(([pattern, body]): Pair<Pattern, Tree> => {
+        const inner = within(patternBinders(pattern));
+        return [renamePattern(inner, pattern), renameTree(fresh, inner, body)];
+      });
+      return Match(renameTree(fresh, scope, scrut), newArms, span);
+    },
+    TypeDef: ({ name, params, ctors, body, span }) =>
+      TypeDef(name, params, ctors, renameTree(fresh, scope, body), span),
+    Extern: ({ name, site, arity, symbol, body, span }) => {
+      const inner = within([[name, site]]);
+      return Extern(resolveName(inner, name), site, arity, symbol, renameTree(fresh, inner, body), span);
+    },
+  });
+};
+
+const renamePattern = (scope: Context<Name>, pattern: Pattern): Pattern =>
+  match(pattern)({
+    Wild: () => pattern,
+    Bind: ({ name, span }) => PBind(resolveName(scope, name), span),
+    Lit: () => pattern,
+    Con: ({ name, args, span }) =>
+      PCon(
+        name,
+        args.map((arg) => renamePattern(scope, arg)),
+        span
+      ),
+    Tuple: ({ items, span }) =>
+      PTuple(
+        items.map((item) => renamePattern(scope, item)),
+        span
+      ),
+  });
+
+// Returns the renamed tree with the mapping from each mangled name back to the
+// source name it was made from.
+const rename = (tree: Tree): Pair<Tree, Renaming> => {
+  const state = makeState();
+  const names: Renaming = new Map();
+
+  const fresh = (name: Name, span: Span): Name => {
+    const mangled = `v_${name.replace(".", "_")}_${state.next()[0]}`;
+    names.set(mangled, { name, span });
+    return mangled;
+  };
+
+  return [renameTree(fresh, makeContext(), tree), names];
+};
+
+export type { Renaming };
+export { resolveName, renameTree, rename };
@@ -0,0 +1,202 @@
+import readline from "readline";
+
+import { makeContext, Context } from "./lib/context";
+import { Pair } from "./lib/pair";
+import { Error as GenericError } from "./lib/error";
+import { Diagnostic } from "./lib/diagnostic";
+import { Name, Tree, Tuple, Var, show, showT } from "./syntax";
+import { parser, scanner } from "./parser";
+import { qualify } from "./link";
+import { resolve } from "./resolve";
+import { typecheck } from "./typecheck";
+import { Value, evaluate, showV, stdio } from "./interpret";
+import { Renaming } from "./rename";
+import { showProg } from "./passes";
+import { codegenProg } from "./codegen";
+import { jsgenProg } from "./jsgen";
+import { compileBytecode, disassemble } from "./vm";
+import { Options, closureConvert, reportDiagnostics } from "./cli";
+
+// The definitions entered so far, each ending in the empty tuple like a
+// module, and the values they bound.
+type Session = { decls: Tree[]; env: Context<Value> };
+
+// The names a definition binds, or undefined when the input is an expression.
+const declared = (tree: Tree): Name[] | undefined => {
+  const then = (names: Name[], body: Tree): Name[] | undefined => {
+    const rest = declared(body);
+    return rest === undefined ? undefined : [...names, ...rest];
+  };
+
+  switch (tree.tag) {
+    case "Let":
+      return then([tree.name], tree.body);
+    case "Rec":
+      return then(
+        tree.binds.map(([name]) => name),
+        tree.body
+      );
+    case "TypeDef":
+      return then([], tree.body);
+    case "Extern":
+      return then([tree.name], tree.body);
+    case "Tuple":
+      return tree.items.length === 0 ? [] : undefined;
+    default:
+      return undefined;
+  }
+};
+
+// Parses a line as a module, so that definitions may stop after their last
+// declaration, adding the ';' a definition is usually typed without.
+const parseInput = (line: string): Tree => {
+  const parse = (source: string): Tree => {
+    const { imports, tree } = parser(scanner(source, "<repl>"), true);
+    return imports.length === 0
+      ? tree
+      : Diagnostic.raise([Diagnostic.error("Cannot import in the REPL", imports[0].span)]);
+  };
+
+  try {
+    return parse(line);
+  } catch (error) {
+    if (!Diagnostic.isCompileError(error) || line.trimEnd().endsWith(";")) {
+      throw error;
+    }
+
+    try {
+      return parse(`${line};`);
+    } catch {
+      throw error;
+    }
+  }
+};
+
+// Closes an input over the session: an expression stays as it is, while a
+// definition ends in the tuple of the names it binds, which it evaluates to.
+const closeInput = (tree: Tree): Pair<Tree, Name[] | undefined> => {
+  const names = declared(tree);
+
+  if (names === undefined) {
+    return [tree, undefined];
+  }
+
+  const unique = names.filter((name, idx) => names.lastIndexOf(name) === idx);
+  const bound = Tuple(
+    unique.map((name) => Var(name, tree.span)),
+    tree.span
+  );
+
+  return [qualify((name) => name, makeContext(), tree, bound), unique];
+};
+
+// The whole program an input stands for, with every definition before it.
+const withSession = (session: Session, tree: Tree): Tree => {
+  return session.decls.reduceRight((rest, decl) => qualify((name) => name, makeContext(), decl, rest), tree);
+};
+
+// Splits `:command input` in two; a plain input has no command.
+const splitCommand = (line: string): Pair<string, string> => {
+  const parts = /^(:\S*)\s*(.*)$/.exec(line);
+  return parts === null ? ["", line] : [parts[1], parts[2]];
+};
+
+const commands = [":ast", ":closure", ":c", ":js", ":bytecode"];
+
+const evaluateInput = (session: Session, command: string, input: string, options: Options): Session => {
+  if (command !== "" && (!commands.includes(command) || input.trim() === "")) {
+    console.error(`usage: ${commands.map((command) => `${command} <input>`).join(", ")}`);
+    return session;
+  }
+
+  const tree = parseInput(input);
+
+  if (command === ":ast") {
+    console.log(show(tree));
+    return session;
+  }
+
+  const [closed, names] = closeInput(tree);
+  const program = withSession(session, closed);
+
+  resolve(program);
+  const type = typecheck(program);
+
+  if (command === ":closure") {
+    console.log(showProg(closureConvert(program, options)));
+    return session;
+  }
+
+  if (command === ":c") {
+    const names: Renaming = new Map();
+    const prog = closureConvert(program, options, names);
+    console.log(codegenProg(prog, { names, sources: new Map(), lines: null, checks: !options.release }));
+    return session;
+  }
+
+  if (command === ":js") {
+    console.log(jsgenProg(closureConvert(program, options)));
+    return session;
+  }
+
+  if (command === ":bytecode") {
+    console.log(disassemble(compileBytecode(closureConvert(program, options))));
+    return session;
+  }
+
+  const value = evaluate(stdio, session.env, closed);
+
+  if (names === undefined) {
+    console.log(showV(value));
+    return session;
+  }
+
+  const types = type.tag === "Con" ? type.args : [];
+  const values = value.tag === "Data" ? value.fields : [];
+  names.forEach((name, idx) => console.log(`${name} : ${showT(types[idx])}`));
+
+  return {
+    decls: [...session.decls, tree],
+    env: makeContext([...session.env.map, ...names.map((name, idx): [Name, Value] => [name, values[idx]])]),
+  };
+};
+
+// Reads one input per line until the end of stdin; an input that fails leaves
+// the session as it was. Warnings are not shown, since a binding is unused
+// until a later input reads it.
+const repl = async (options: Options) => {
+  const terminal = process.stdin.isTTY === true;
+  const lines = readline.createInterface({ input: process.stdin, output: process.stdout, terminal });
+  let session: Session = { decls: [], env: makeContext() };
+
+  lines.setPrompt("> ");
+
+  if (terminal) {
+    lines.prompt();
+  }
+
+  for await (const line of lines) {
+    const [command, input] = splitCommand(line);
+
+    try {
+      if (line.trim() !== "") {
+        session = evaluateInput(session, command, input, options);
+      }
+    } catch (error) {
+      if (Diagnostic.isCompileError(error)) {
+        const errors = error.diagnostics.filter(({ severity }) => severity === "error");
+        reportDiagnostics(new Map([["<repl>", input]]), errors, "<repl>");
+      } else if (GenericError.isGenericException(error)) {
+        console.error(error.message);
+      } else {
+        throw error;
+      }
+    }
+
+    if (terminal) {
+      lines.prompt();
+    }
+  }
+};
+
+export { repl };
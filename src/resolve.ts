@@ -0,0 +1,171 @@
+import { makeContext, Context } from "./lib/context";
+import { match } from "./lib/helpers";
+import { Pair } from "./lib/pair";
+import { Diagnostic, DiagnosticType, Span, suggest } from "./lib/diagnostic";
+import { Name, Pattern, Tree, patternBinders } from "./syntax";
+
+type Binding = { name: Name; span: Span; used: boolean };
+
+// Reports every unbound variable or unknown constructor as an error, with the
+// closest name in scope as a suggestion, and every binding that is never read
+// as a warning. Names starting with an underscore, and those exported by
+// modules, are exempt from the latter. A file may only use the qualified names
+// of the modules it imports. Constructors are visible from their `type`
+// declaration onwards and must be unique across the program.
+const resolve = (tree: Tree, imports: Map<string, Name[]> = new Map()): DiagnosticType[] => {
+  const diagnostics: DiagnosticType[] = [];
+  const ctors = new Set<Name>();
+
+  const bindAll = (scope: Context<Binding>, sites: Pair<Name, Span>[]): [Context<Binding>, Binding[]] => {
+    const bindings = sites.map(([name, span]): Binding => ({ name, span, used: false }));
+    return [
+      makeContext([...scope.map, ...bindings.map((binding): [Name, Binding] => [binding.name, binding])]),
+      bindings,
+    ];
+  };
+
+  const close = (bindings: Binding[]) => {
+    bindings
+      .filter(({ name, used }) => !used && !name.startsWith("_") && !name.includes("."))
+      .forEach(({ name, span }) => diagnostics.push(Diagnostic.warning(`Unused binding '${name}'`, span)));
+  };
+
+  const unbound = (scope: Context<Binding>, data: Name, span: Span) => {
+    const candidate = suggest(data, [...scope.map.keys()]);
+    const hint = candidate === undefined ? undefined : `did you mean '${candidate}'?`;
+
+    diagnostics.push(Diagnostic.error(`Unbound variable '${data}'`, span, hint));
+  };
+
+  const imported = (data: Name, span: Span): boolean => {
+    const module = data.slice(0, data.indexOf("."));
+
+    if (!data.includes(".") || imports.get(span.file ?? "")?.includes(module)) {
+      return true;
+    }
+
+    diagnostics.push(Diagnostic.error(`Module '${module}' is not imported`, span, `add 'import ${module};'`));
+    return false;
+  };
+
+  const constructor = (name: Name, span: Span) => {
+    if (!ctors.has(name)) {
+      const candidate = suggest(name, [...ctors]);
+      const hint = candidate === undefined ? undefined : `did you mean '${candidate}'?`;
+
+      diagnostics.push(Diagnostic.error(`Unknown constructor '${name}'`, span, hint));
+    }
+  };
+
+  const visitPattern = (pattern: Pattern): void =>
+    match(pattern)({
+      Wild: () => {},
+      Bind: () => {},
+      Lit: () => {},
+      Con: ({ name, args, span }) => {
+        constructor(name, span);
+        args.forEach((arg) => visitPattern(arg));
+      },
+      Tuple: ({ items }) => items.forEach((item) => visitPattern(item)),
+    });
+
+  const visitArm = (scope: Context<Binding>, pattern: Pattern, body: Tree) => {
+    const sites = patternBinders(pattern);
+
+    sites
+      .filter(([name], idx) => sites.findIndex(([other]) => other === name) !== idx)
+      .forEach(([name, span]) => diagnostics.push(Diagnostic.error(`Duplicate binding '${name}' in pattern`, span)));
+
+    visitPattern(pattern);
+
+    const [inner, bindings] = bindAll(scope, sites);
+    visit(inner, body);
+    close(bindings);
+  };
+
+  const visit = (scope: Context<Binding>, tree: Tree): void =>
+    match(tree)({
+      Num: () => {},
+      Float: () => {},
+      Str: () => {},
+      Bool: () => {},
+      Var: ({ data, span }) => {
+        if (!imported(data, span)) {
+          return;
+        }
+
+        match(scope.get(data))({
+          Some: ({ value }) => {
+            value.used = true;
+          },
+          None: () => unbound(scope, data, span),
+        });
+      },
+      Bin: ({ lhs, rhs }) => {
+        visit(scope, lhs);
+        visit(scope, rhs);
+      },
+      Una: ({ argm }) => visit(scope, argm),
+      Lam: ({ props, sites, body }) => {
+        const [inner, bindings] = bindAll(
+          scope,
+          props.map((prop, idx): Pair<Name, Span> => [prop, sites[idx]])
+        );
+        visit(inner, body);
+        close(bindings);
+      },
+      App: ({ func, args }) => [func, ...args].forEach((tree) => visit(scope, tree)),
+      Let: ({ name, site, bind, body }) => {
+        const [inner, bindings] = bindAll(scope, [[name, site]]);
+        visit(scope, bind);
+        visit(inner, body);
+        close(bindings);
+      },
+      Rec: ({ binds, sites, body }) => {
+        const [inner, bindings] = bindAll(
+          scope,
+          binds.map(([name], idx): Pair<Name, Span> => [name, sites[idx]])
+        );
+        binds.forEach(([_, bind]) => visit(inner, bind));
+        visit(inner, body);
+        close(bindings);
+      },
+      If: ({ cond, conseq, alter }) => [cond, conseq, alter].forEach((tree) => visit(scope, tree)),
+      Tuple: ({ items }) => items.forEach((item) => visit(scope, item)),
+      Con: ({ name, args, span }) => {
+        constructor(name, span);
+        args.forEach((arg) => visit(scope, arg));
+      },
+      Match: ({ scrut, arms }) => {
+        visit(scope, scrut);
+        arms.forEach(([pattern, body]) => visitArm(scope, pattern, body));
+      },
+      TypeDef: ({ ctors: variants, body }) => {
+        variants.forEach(({ name, span }) => {
+          if (ctors.has(name)) {
+            diagnostics.push(Diagnostic.error(`Constructor '${name}' is already defined`, span));
+          }
+
+          ctors.add(name);
+        });
+        visit(scope, body);
+      },
+      Extern: ({ name, site, body }) => {
+        const [inner, bindings] = bindAll(scope, [[name, site]]);
+        visit(inner, body);
+        close(bindings);
+      },
+    });
+
+  visit(makeContext(), tree);
+
+  const sorted = diagnostics.sort((lhs, rhs) => lhs.span.start.offset - rhs.span.start.offset);
+
+  if (sorted.some(({ severity }) => severity === "error")) {
+    Diagnostic.raise(sorted);
+  }
+
+  return sorted;
+};
+
+export { resolve };
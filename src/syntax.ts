@@ -0,0 +1,399 @@
+import { ADT, match } from "./lib/helpers";
+import { Pair } from "./lib/pair";
+import { Span } from "./lib/diagnostic";
+
+type Name = string;
+type Prop = string;
+type Oper = "add" | "sub" | "mul" | "div" | "lt" | "eq" | "neg";
+type Tree = ADT<{
+  Num: { data: number };
+  Float: { data: number };
+  Str: { data: string };
+  Bool: { data: boolean };
+  Var: { data: Name };
+  Bin: { oper: Oper; lhs: Tree; rhs: Tree };
+  Una: { oper: Oper; argm: Tree };
+  Lam: { props: Prop[]; sites: Span[]; body: Tree };
+  App: { func: Tree; args: Tree[] };
+  Let: { name: Name; site: Span; bind: Tree; body: Tree };
+  Rec: { binds: Pair<Name, Tree>[]; sites: Span[]; body: Tree };
+  If: { cond: Tree; conseq: Tree; alter: Tree };
+  Tuple: { items: Tree[] };
+  Con: { name: Name; args: Tree[] };
+  Match: { scrut: Tree; arms: Pair<Pattern, Tree>[] };
+  TypeDef: { name: Name; params: Name[]; ctors: Variant[]; body: Tree };
+  Extern: { name: Name; site: Span; arity: number; symbol: string; body: Tree };
+}> & { span: Span };
+
+type Pattern = ADT<{
+  Wild: {};
+  Bind: { name: Name };
+  Lit: { value: Tree };
+  Con: { name: Name; args: Pattern[] };
+  Tuple: { items: Pattern[] };
+}> & { span: Span };
+
+// One constructor of a `type` declaration, with the types of its fields.
+type Variant = { name: Name; fields: Type[]; span: Span };
+
+// An `import` naming a module and the file it is read from, relative to the
+// importing file.
+type Import = { name: Name; file: string; span: Span };
+type Module = { imports: Import[]; tree: Tree };
+
+type Type = ADT<{
+  Var: { name: Name };
+  Con: { name: Name; args: Type[] };
+  Fun: { argm: Type; body: Type };
+}>;
+
+const TyVar = (name: Name): Type => ({ tag: "Var", name });
+const TyCon = (name: Name, args: Type[] = []): Type => ({ tag: "Con", name, args });
+const TyFun = (argm: Type, body: Type): Type => ({ tag: "Fun", argm, body });
+
+// Tuples are the one built-in type constructor with any number of arguments.
+const tupleType = "*";
+
+const Num = (data: number, span: Span): Tree => ({ tag: "Num", data, span });
+const Float = (data: number, span: Span): Tree => ({ tag: "Float", data, span });
+const Str = (data: string, span: Span): Tree => ({ tag: "Str", data, span });
+const Bool = (data: boolean, span: Span): Tree => ({ tag: "Bool", data, span });
+const Var = (data: Name, span: Span): Tree => ({ tag: "Var", data, span });
+const Bin = (oper: Oper, lhs: Tree, rhs: Tree, span: Span): Tree => ({ tag: "Bin", oper, lhs, rhs, span });
+const Una = (oper: Oper, argm: Tree, span: Span): Tree => ({ tag: "Una", oper, argm, span });
+// `sites` holds where each parameter is bound.
+const Lam = (props: Prop[], sites: Span[], body: Tree, span: Span): Tree => ({
+  tag: "Lam",
+  props,
+  sites,
+  body,
+  span,
+});
+const App = (func: Tree, args: Tree[], span: Span): Tree => ({ tag: "App", func, args, span });
+// The `site` of a let or extern is where its name is bound, and the `sites`
+// of a recursive group where each of its names is.
+const Let = (name: Name, site: Span, bind: Tree, body: Tree, span: Span): Tree => ({
+  tag: "Let",
+  name,
+  site,
+  bind,
+  body,
+  span,
+});
+const Rec = (binds: Pair<Name, Tree>[], sites: Span[], body: Tree, span: Span): Tree => ({
+  tag: "Rec",
+  binds,
+  sites,
+  body,
+  span,
+});
+const If = (cond: Tree, conseq: Tree, alter: Tree, span: Span): Tree => ({ tag: "If", cond, conseq, alter, span });
+const Tuple = (items: Tree[], span: Span): Tree => ({ tag: "Tuple", items, span });
+const Con = (name: Name, args: Tree[], span: Span): Tree => ({ tag: "Con", name, args, span });
+const Match = (scrut: Tree, arms: Pair<Pattern, Tree>[], span: Span): Tree => ({ tag: "Match", scrut, arms, span });
+const TypeDef = (name: Name, params: Name[], ctors: Variant[], body: Tree, span: Span): Tree => ({
+  tag: "TypeDef",
+  name,
+  params,
+  ctors,
+  body,
+  span,
+});
+
+const Extern = (name: Name, site: Span, arity: number, symbol: string, body: Tree, span: Span): Tree => ({
+  tag: "Extern",
+  name,
+  site,
+  arity,
+  symbol,
+  body,
+  span,
+});
+
+const PWild = (span: Span): Pattern => ({ tag: "Wild", span });
+const PBind = (name: Name, span: Span): Pattern => ({ tag: "Bind", name, span });
+const PLit = (value: Tree, span: Span): Pattern => ({ tag: "Lit", value, span });
+const PCon = (name: Name, args: Pattern[], span: Span): Pattern => ({ tag: "Con", name, args, span });
+const PTuple = (items: Pattern[], span: Span): Pattern => ({ tag: "Tuple", items, span });
+
+const operators: Record<Oper, string> = {
+  add: "+",
+  sub: "-",
+  mul: "*",
+  div: "/",
+  lt: "<",
+  eq: "==",
+  neg: "-",
+};
+
+// The exact decimal expansion of |value|: its digits, `scale` of which come
+// after the point. Doubles are m * 2^e, so this multiplies out the power of
+// two (or of five, for a negative e) digit by digit.
+const expandFloat = (value: number): Pair<number[], number> => {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, Math.abs(value));
+
+  const high = view.getUint32(0);
+  const biased = (high >>> 20) & 0x7ff;
+  const mantissa = (high & 0xfffff) * 2 ** 32 + view.getUint32(4) + (biased === 0 ? 0 : 2 ** 52);
+  const power = (biased === 0 ? 1 : biased) - 1075;
+
+  const digits = [...`${mantissa}`].map((digit) => Number(digit));
+
+  for (let i = 0; i < Math.abs(power); i++) {
+    let carry = 0;
+
+    for (let j = digits.length - 1; j >= 0; j--) {
+      const product = digits[j] * (power > 0 ? 2 : 5) + carry;
+      digits[j] = product % 10;
+      carry = Math.floor(product / 10);
+    }
+
+    if (carry > 0) {
+      digits.unshift(carry);
+    }
+  }
+
+  return [digits, power < 0 ? -power : 0];
+};
+
+// Rounds an expansion to `decimals` places, ties to even like glibc's printf,
+// and returns the digits of the result without a point.
+const roundFloat = ([digits, scale]: Pair<number[], number>, decimals: number): string => {
+  const keep = digits.length - scale + decimals;
+
+  if (keep >= digits.length) {
+    return digits.join("") + "0".repeat(keep - digits.length);
+  }
+
+  const kept = keep > 0 ? digits.slice(0, keep) : [0];
+  const [next, ...rest] = digits.slice(Math.max(0, keep));
+  const half =
+    keep < 0 ? false : next > 5 || (next === 5 && (rest.some((digit) => digit > 0) || kept[kept.length - 1] % 2 === 1));
+
+  if (!half) {
+    return kept.join("");
+  }
+
+  const carried = kept.reduceRight(
+    ([acc, carry], digit): Pair<number[], number> => [[(digit + carry) % 10, ...acc], digit + carry === 10 ? 1 : 0],
+    [[], 1] as Pair<number[], number>
+  );
+
+  return (carried[1] > 0 ? "1" : "") + carried[0].join("");
+};
+
+// Prints the shortest digits that read back as the same double, switching to
+// an exponent outside [1e-4, 1e17) and always keeping a '.' or an exponent so
+// floats never look like integers. print_float in driver.c mirrors this.
+const showFloat = (value: number): string => {
+  if (Number.isNaN(value)) {
+    return "nan";
+  }
+
+  if (!Number.isFinite(value)) {
+    return value > 0 ? "inf" : "-inf";
+  }
+
+  if (value === 0) {
+    return Object.is(value, -0) ? "-0.0" : "0.0";
+  }
+
+  const sign = value < 0 ? "-" : "";
+  const expansion = expandFloat(value);
+  const magnitude = expansion[0].length - 1 - expansion[1];
+
+  const scientific = (precision: number): Pair<string, number> => {
+    const rounded = roundFloat(expansion, precision - 1 - magnitude);
+    return rounded.length > precision ? [rounded.slice(0, precision), magnitude + 1] : [rounded, magnitude];
+  };
+
+  const exponential = (precision: number): string => {
+    const [digits, power] = scientific(precision);
+    const mantissa = digits.length > 1 ? `${digits[0]}.${digits.slice(1)}` : digits;
+    return `${sign}${mantissa}e${power < 0 ? "-" : "+"}${`${Math.abs(power)}`.padStart(2, "0")}`;
+  };
+
+  const precisions = Array.from({ length: 17 }, (_, idx) => idx + 1);
+  const precision = precisions.find((digits) => Number(exponential(digits)) === value) ?? 17;
+  const [_, power] = scientific(precision);
+
+  if (power < -4 || power >= 17) {
+    return exponential(precision);
+  }
+
+  const decimals = Math.max(0, precision - 1 - power);
+  const digits = roundFloat(expansion, decimals).padStart(decimals + 1, "0");
+
+  return decimals > 0 ? `${sign}${digits.slice(0, -decimals)}.${digits.slice(-decimals)}` : `${sign}${digits}.0`;
+};
+
+const makeTypePrinter = () => {
+  const names = new Map<Name, string>();
+
+  const rename = (name: Name): string => {
+    if (name.startsWith("'")) {
+      return name;
+    }
+
+    if (!names.has(name)) {
+      const idx = names.size;
+      const suffix = idx >= 26 ? `${Math.floor(idx / 26)}` : "";
+      names.set(name, `'${String.fromCharCode(97 + (idx % 26))}${suffix}`);
+    }
+
+    return names.get(name) as string;
+  };
+
+  const print = (type: Type, nested: boolean): string =>
+    match(type)({
+      Var: ({ name }) => rename(name),
+      Con: ({ name, args }) =>
+        name === tupleType
+          ? `(${args.map((arg) => print(arg, false)).join(", ")})`
+          : args.length === 0
+            ? name
+            : `${name}(${args.map((arg) => print(arg, false)).join(", ")})`,
+      Fun: ({ argm, body }) => {
+        const arrow = `${print(argm, true)} -> ${print(body, false)}`;
+        return nested ? `(${arrow})` : arrow;
+      },
+    });
+
+  return (type: Type): string => print(type, false);
+};
+
+const showT = (type: Type): string => {
+  return makeTypePrinter()(type);
+};
+
+const show = (tree: Tree): string =>
+  match(tree)({
+    Num: ({ data }) => `${data}`,
+    Float: ({ data }) => showFloat(data),
+    Str: ({ data }) => JSON.stringify(data),
+    Bool: ({ data }) => `${data}`,
+    Var: ({ data }) => `${data}`,
+    Bin: ({ oper, lhs, rhs }) => `(${show(lhs)} ${operators[oper]} ${show(rhs)})`,
+    Una: ({ oper, argm }) => `${operators[oper]}${show(argm)}`,
+    Lam: ({ props, body }) => `(${props.join(", ")}) => ${show(body)}`,
+    App: ({ func, args }) => `(${[func, ...args].map((tree) => show(tree)).join(" ")})`,
+    Let: ({ name, bind, body }) => `let ${name} = ${show(bind)} in ${show(body)} `,
+    Rec: ({ binds, body }) =>
+      `let rec ${binds.map(([name, bind]) => `${name} = ${show(bind)}`).join(" and ")} in ${show(body)} `,
+    If: ({ cond, conseq, alter }) => `if ${show(cond)} then ${show(conseq)} else ${show(alter)}`,
+    Tuple: ({ items }) => `(${items.map((tree) => show(tree)).join(", ")})`,
+    Con: ({ name, args }) => (args.length === 0 ? name : `${name}(${args.map((tree) => show(tree)).join(", ")})`),
+    Match: ({ scrut, arms }) =>
+      `match ${show(scrut)} with ${arms.map(([pattern, body]) => `| ${showP(pattern)} => ${show(body)}`).join(" ")}`,
+    TypeDef: ({ name, params, ctors, body }) => {
+      const head = params.length === 0 ? name : `${name}(${params.join(", ")})`;
+      const variants = ctors.map((variant) => showVariant(variant)).join(" | ");
+      return `type ${head} = ${variants} in ${show(body)} `;
+    },
+    Extern: ({ name, arity, symbol, body }) =>
+      `extern ${name} : ${arity} = ${JSON.stringify(symbol)} in ${show(body)} `,
+  });
+
+const showP = (pattern: Pattern): string =>
+  match(pattern)({
+    Wild: () => "_",
+    Bind: ({ name }) => name,
+    Lit: ({ value }) => show(value),
+    Con: ({ name, args }) => (args.length === 0 ? name : `${name}(${args.map((arg) => showP(arg)).join(", ")})`),
+    Tuple: ({ items }) => `(${items.map((item) => showP(item)).join(", ")})`,
+  });
+
+const showVariant = ({ name, fields }: Variant): string => {
+  return fields.length === 0 ? name : `${name}(${fields.map((field) => showT(field)).join(", ")})`;
+};
+
+// The names a pattern binds, with where each one is bound.
+const patternBinders = (pattern: Pattern): Pair<Name, Span>[] =>
+  match(pattern)({
+    Wild: () => [],
+    Bind: ({ name, span }): Pair<Name, Span>[] => [[name, span]],
+    Lit: () => [],
+    Con: ({ args }) => args.flatMap((arg) => patternBinders(arg)),
+    Tuple: ({ items }) => items.flatMap((item) => patternBinders(item)),
+  });
+
+const free = (tree: Tree): Set<string> =>
+  match(tree)({
+    Var: ({ data }) => new Set([data]),
+    Num: ({ data: _ }) => new Set([]),
+    Float: ({ data: _ }) => new Set([]),
+    Str: ({ data: _ }) => new Set([]),
+    Bool: ({ data: _ }) => new Set([]),
+    Bin: ({ lhs, rhs }) => new Set([...free(lhs), ...free(rhs)]),
+    Una: ({ argm }) => free(argm),
+    Lam: ({ props, body }) => {
+      const freeProp = free(body);
+      return new Set([...freeProp].filter((x) => !props.includes(x)));
+    },
+    App: ({ func, args }) => {
+      const freeFunc = free(func);
+      const freeArgs = args.flatMap((arg) => [...free(arg)]);
+      return new Set([...freeFunc, ...freeArgs]);
+    },
+    Let: ({ name, bind, body }) => {
+      const freeBind = free(bind);
+      const freeBody = [...free(body)].filter((x) => x !== name);
+      return new Set([...freeBind, ...freeBody]);
+    },
+    Rec: ({ binds, body }) => {
+      const names = binds.map(([name]) => name);
+      const freeBinds = binds.flatMap(([_, bind]) => [...free(bind)]);
+      const freeBody = free(body);
+      return new Set([...freeBinds, ...freeBody].filter((x) => !names.includes(x)));
+    },
+    If: ({ cond, conseq, alter }) => new Set([...free(cond), ...free(conseq), ...free(alter)]),
+    Tuple: ({ items }) => new Set(items.flatMap((item) => [...free(item)])),
+    Con: ({ args }) => new Set(args.flatMap((arg) => [...free(arg)])),
+    Match: ({ scrut, arms }) => {
+      const freeArms = arms.flatMap(([pattern, body]) => {
+        const names = patternBinders(pattern).map(([name]) => name);
+        return [...free(body)].filter((x) => !names.includes(x));
+      });
+      return new Set([...free(scrut), ...freeArms]);
+    },
+    TypeDef: ({ body }) => free(body),
+    Extern: ({ name, body }) => new Set([...free(body)].filter((x) => x !== name)),
+  });
+
+export type { Name, Prop, Oper, Tree, Pattern, Variant, Import, Module, Type };
+export {
+  TyVar,
+  TyCon,
+  TyFun,
+  tupleType,
+  Num,
+  Float,
+  Str,
+  Bool,
+  Var,
+  Bin,
+  Una,
+  Lam,
+  App,
+  Let,
+  Rec,
+  If,
+  Tuple,
+  Con,
+  Match,
+  TypeDef,
+  Extern,
+  PWild,
+  PBind,
+  PLit,
+  PCon,
+  PTuple,
+  operators,
+  showFloat,
+  makeTypePrinter,
+  showT,
+  show,
+  patternBinders,
+  free,
+};
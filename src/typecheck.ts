@@ -0,0 +1,608 @@
+import { makeContext, Context } from "./lib/context";
+import { makeState } from "./lib/state";
+import { match } from "./lib/helpers";
+import { Pair } from "./lib/pair";
+import { Option, OptionType } from "./lib/option";
+import { Diagnostic, Span, suggest } from "./lib/diagnostic";
+import {
+  Name,
+  Oper,
+  PWild,
+  Pattern,
+  Prop,
+  Tree,
+  TyCon,
+  TyFun,
+  TyVar,
+  Type,
+  Variant,
+  makeTypePrinter,
+  operators,
+  show,
+  showT,
+  tupleType,
+} from "./syntax";
+
+type Scheme = { vars: Name[]; type: Type };
+type Subst = Map<Name, Type>;
+type Inferred = Pair<Subst, Type>;
+
+const TyInt = TyCon("Int");
+const TyBool = TyCon("Bool");
+const TyFloat = TyCon("Float");
+const TyStr = TyCon("String");
+
+const primitives = new Map<Name, number>(["Int", "Bool", "Float", "String"].map((name) => [name, 0]));
+
+// The types each operator accepts; both operands of a binary operator share one.
+const overloads: Record<Oper, Type[]> = {
+  add: [TyInt, TyFloat, TyStr],
+  sub: [TyInt, TyFloat],
+  mul: [TyInt, TyFloat],
+  div: [TyInt, TyFloat],
+  lt: [TyInt, TyFloat, TyStr],
+  eq: [TyInt, TyFloat, TyBool, TyStr],
+  neg: [TyInt, TyFloat],
+};
+
+const freeTypeVars = (type: Type): Set<Name> =>
+  match(type)({
+    Var: ({ name }) => new Set([name]),
+    Con: ({ args }) => new Set(args.flatMap((arg) => [...freeTypeVars(arg)])),
+    Fun: ({ argm, body }) => new Set([...freeTypeVars(argm), ...freeTypeVars(body)]),
+  });
+
+const freeSchemeVars = ({ vars, type }: Scheme): Set<Name> => {
+  return new Set([...freeTypeVars(type)].filter((name) => !vars.includes(name)));
+};
+
+const freeEnvVars = (env: Context<Scheme>): Set<Name> => {
+  return new Set([...env.map.values()].flatMap((scheme) => [...freeSchemeVars(scheme)]));
+};
+
+const applySubst = (subst: Subst, type: Type): Type =>
+  match(type)({
+    Var: ({ name }) => subst.get(name) ?? type,
+    Con: ({ name, args }) =>
+      TyCon(
+        name,
+        args.map((arg) => applySubst(subst, arg))
+      ),
+    Fun: ({ argm, body }) => TyFun(applySubst(subst, argm), applySubst(subst, body)),
+  });
+
+const applyScheme = (subst: Subst, { vars, type }: Scheme): Scheme => {
+  const inner = new Map([...subst].filter(([name]) => !vars.includes(name)));
+  return { vars, type: applySubst(inner, type) };
+};
+
+const applyEnv = (subst: Subst, env: Context<Scheme>): Context<Scheme> => {
+  return makeContext([...env.map].map(([name, scheme]) => [name, applyScheme(subst, scheme)]));
+};
+
+const compose = (after: Subst, before: Subst): Subst => {
+  const applied = [...before].map(([name, type]): Pair<Name, Type> => [name, applySubst(after, type)]);
+  return new Map([...applied, ...after]);
+};
+
+const bindVar = (name: Name, type: Type): OptionType<Subst> => {
+  if (type.tag === "Var" && type.name === name) {
+    return Option.Some(new Map());
+  }
+
+  if (freeTypeVars(type).has(name)) {
+    return Option.None();
+  }
+
+  return Option.Some(new Map([[name, type]]));
+};
+
+const unifyAll = (lhs: Type[], rhs: Type[]): OptionType<Subst> => {
+  return lhs.reduce(
+    (acc: OptionType<Subst>, type, idx) =>
+      match(acc)({
+        Some: ({ value }) =>
+          match(unify(applySubst(value, type), applySubst(value, rhs[idx])))({
+            Some: (next) => Option.Some(compose(next.value, value)),
+            None: () => Option.None<Subst>(),
+          }),
+        None: () => acc,
+      }),
+    Option.Some(new Map())
+  );
+};
+
+const unify = (lhs: Type, rhs: Type): OptionType<Subst> => {
+  if (lhs.tag === "Var") return bindVar(lhs.name, rhs);
+  if (rhs.tag === "Var") return bindVar(rhs.name, lhs);
+
+  if (lhs.tag === "Fun" && rhs.tag === "Fun") {
+    return unifyAll([lhs.argm, lhs.body], [rhs.argm, rhs.body]);
+  }
+
+  if (lhs.tag === "Con" && rhs.tag === "Con" && lhs.name === rhs.name && lhs.args.length === rhs.args.length) {
+    return unifyAll(lhs.args, rhs.args);
+  }
+
+  return Option.None();
+};
+
+type Datatype = { name: Name; params: Name[]; ctors: Variant[] };
+
+// The constructor a pattern tests for and its sub-patterns, if it tests for one.
+// Tuples have a single constructor and literals are their own.
+const patternHead = (pattern: Pattern): Pair<string, Pattern[]> | undefined => {
+  switch (pattern.tag) {
+    case "Con":
+      return [pattern.name, pattern.args];
+    case "Tuple":
+      return ["()", pattern.items];
+    case "Lit":
+      return [show(pattern.value), []];
+    default:
+      return undefined;
+  }
+};
+
+// Every constructor of the type whose constructors appear in a column, or
+// undefined when there are too many to list (integer and string literals).
+const signature = (owners: Map<Name, Datatype>, present: Map<string, number>): Pair<string, number>[] | undefined => {
+  const owner = [...present.keys()].map((key) => owners.get(key)).find((data) => data !== undefined);
+
+  if (owner !== undefined) {
+    return owner.ctors.map(({ name, fields }): Pair<string, number> => [name, fields.length]);
+  }
+
+  if (present.has("()")) {
+    return [["()", present.get("()") as number]];
+  }
+
+  if (present.has("true") || present.has("false")) {
+    return [
+      ["true", 0],
+      ["false", 0],
+    ];
+  }
+
+  return undefined;
+};
+
+const showHead = (key: string, args: string[]): string => {
+  if (key === "()") {
+    return `(${args.join(", ")})`;
+  }
+
+  return args.length === 0 ? key : `${key}(${args.join(", ")})`;
+};
+
+const specialize = (rows: Pattern[][], key: string, arity: number): Pattern[][] => {
+  return rows.flatMap(([first, ...rest]) => {
+    const head = patternHead(first);
+
+    if (head === undefined) {
+      return [[...Array.from({ length: arity }, () => PWild(first.span)), ...rest]];
+    }
+
+    return head[0] === key ? [[...head[1], ...rest]] : [];
+  });
+};
+
+// Finds values, shown as patterns, that no row matches: rows are the
+// remaining columns of each arm. The usefulness check from Maranget's
+// "Warnings for pattern matching" with a witness for the first gap found.
+const uncovered = (owners: Map<Name, Datatype>, rows: Pattern[][], width: number): string[] | undefined => {
+  if (width === 0) {
+    return rows.length === 0 ? [] : undefined;
+  }
+
+  const present = new Map(
+    rows.flatMap(([first]) => {
+      const head = patternHead(first);
+      return head === undefined ? [] : [[head[0], head[1].length] as Pair<string, number>];
+    })
+  );
+
+  const all = signature(owners, present);
+
+  if (all !== undefined && all.every(([key]) => present.has(key))) {
+    for (const [key, arity] of all) {
+      const witness = uncovered(owners, specialize(rows, key, arity), arity + width - 1);
+
+      if (witness !== undefined) {
+        return [showHead(key, witness.slice(0, arity)), ...witness.slice(arity)];
+      }
+    }
+
+    return undefined;
+  }
+
+  const defaults = rows.filter(([first]) => patternHead(first) === undefined).map(([_, ...rest]) => rest);
+  const witness = uncovered(owners, defaults, width - 1);
+
+  if (witness === undefined) {
+    return undefined;
+  }
+
+  const missing = all?.find(([key]) => !present.has(key));
+  const shown = missing === undefined ? "_" : showHead(missing[0], Array(missing[1]).fill("_"));
+
+  return [shown, ...witness];
+};
+
+const typecheck = (tree: Tree): Type => {
+  const state = makeState();
+
+  const fresh = (): Type => {
+    const [idx] = state.next();
+    return TyVar(`t${idx}`);
+  };
+
+  const extend = (env: Context<Scheme>, name: Name, scheme: Scheme): Context<Scheme> => {
+    return makeContext([...env.map, [name, scheme]]);
+  };
+
+  const mono = (type: Type): Scheme => ({ vars: [], type });
+
+  const pending: { oper: Oper; operand: Type; span: Span }[] = [];
+
+  const datatypes = new Map<Name, Datatype>();
+  const owners = new Map<Name, Datatype>();
+
+  // Type variables still waiting on an operator stay monomorphic, so every use
+  // of the binding agrees on the one type the operator ends up working on.
+  const generalize = (env: Context<Scheme>, type: Type, subst: Subst): Scheme => {
+    const bound = freeEnvVars(env);
+    const waiting = new Set(pending.flatMap(({ operand }) => [...freeTypeVars(applySubst(subst, operand))]));
+    return { vars: [...freeTypeVars(type)].filter((name) => !bound.has(name) && !waiting.has(name)), type };
+  };
+
+  const instantiate = ({ vars, type }: Scheme): Type => {
+    const subst = new Map(vars.map((name) => [name, fresh()]));
+    return applySubst(subst, type);
+  };
+
+  const unifyAt = (expected: Type, actual: Type, span: Span): Subst =>
+    match(unify(expected, actual))({
+      Some: ({ value }) => value,
+      None: () => {
+        const print = makeTypePrinter();
+        const message = `Type mismatch: expected ${print(expected)}, but found ${print(actual)}`;
+        return Diagnostic.raise([Diagnostic.error(message, span)]);
+      },
+    });
+
+  const inferVar = (env: Context<Scheme>, data: Name, span: Span): Inferred =>
+    match(env.get(data))({
+      Some: ({ value }): Inferred => [new Map(), instantiate(value)],
+      None: () => Diagnostic.raise([Diagnostic.error(`Unbound variable '${data}'`, span)]),
+    });
+
+  const inferLam = (env: Context<Scheme>, props: Prop[], body: Tree): Inferred => {
+    const params = props.map((prop): Pair<Prop, Type> => [prop, fresh()]);
+    const scope = params.reduce((acc, [prop, param]) => extend(acc, prop, mono(param)), env);
+    const [s1, bodyType] = infer(scope, body);
+
+    return [s1, params.reduceRight((acc, [_, param]) => TyFun(applySubst(s1, param), acc), bodyType)];
+  };
+
+  const inferApp = (env: Context<Scheme>, func: Tree, args: Tree[]): Inferred => {
+    return args.reduce(
+      ([subst, funcType], argm) => {
+        const [s1, type] = inferArg(applyEnv(subst, env), func, funcType, argm);
+        return [compose(s1, subst), type];
+      },
+      infer(env, func)
+    );
+  };
+
+  const inferArg = (env: Context<Scheme>, func: Tree, funcType: Type, argm: Tree): Inferred => {
+    const [s2, argmType] = infer(env, argm);
+    const callee = applySubst(s2, funcType);
+
+    if (callee.tag === "Con") {
+      const message = `This expression has type ${showT(callee)} and cannot be applied`;
+      return Diagnostic.raise([Diagnostic.error(message, func.span)]);
+    }
+
+    if (callee.tag === "Fun") {
+      const s3 = unifyAt(callee.argm, argmType, argm.span);
+      return [compose(s3, s2), applySubst(s3, callee.body)];
+    }
+
+    const result = fresh();
+    const s3 = unifyAt(callee, TyFun(argmType, result), func.span);
+
+    return [compose(s3, s2), applySubst(s3, result)];
+  };
+
+  const inferFields = (env: Context<Scheme>, fields: Type[], trees: Tree[]): Subst => {
+    return trees.reduce((subst, tree, idx) => {
+      const [s1, type] = infer(applyEnv(subst, env), tree);
+      const s2 = compose(s1, subst);
+      return compose(unifyAt(applySubst(s2, fields[idx]), type, tree.span), s2);
+    }, new Map() as Subst);
+  };
+
+  const inferOperands = (env: Context<Scheme>, operand: Type, trees: Tree[]): Subst => {
+    return inferFields(
+      env,
+      trees.map(() => operand),
+      trees
+    );
+  };
+
+  const checkOverload = (oper: Oper, operand: Type, span: Span) => {
+    if (!overloads[oper].some((type) => showT(type) === showT(operand))) {
+      const names = overloads[oper].map((type) => showT(type));
+      const expected = names.length > 1 ? `${names.slice(0, -1).join(", ")} or ${names[names.length - 1]}` : names[0];
+      const message = `Operator '${operators[oper]}' expects ${expected} operands, but got ${showT(operand)}`;
+      Diagnostic.raise([Diagnostic.error(message, span)]);
+    }
+  };
+
+  // An operand type that is still unknown is checked once inference is done,
+  // and defaults to Int if nothing else pinned it down by then.
+  const inferOverload = (env: Context<Scheme>, oper: Oper, trees: Tree[], span: Span): Inferred => {
+    const operand = fresh();
+    const s1 = inferOperands(env, operand, trees);
+    const resolved = applySubst(s1, operand);
+
+    if (resolved.tag === "Var") {
+      pending.push({ oper, operand: resolved, span });
+    } else {
+      checkOverload(oper, resolved, span);
+    }
+
+    return [s1, resolved];
+  };
+
+  const inferBin = (env: Context<Scheme>, oper: Oper, lhs: Tree, rhs: Tree, span: Span): Inferred => {
+    const [subst, operand] = inferOverload(env, oper, [lhs, rhs], span);
+    return [subst, oper === "lt" || oper === "eq" ? TyBool : operand];
+  };
+
+  const inferUna = (env: Context<Scheme>, oper: Oper, argm: Tree, span: Span): Inferred => {
+    return inferOverload(env, oper, [argm], span);
+  };
+
+  const inferLet = (env: Context<Scheme>, name: Name, bind: Tree, body: Tree): Inferred => {
+    const [s1, bindType] = infer(env, bind);
+    const env1 = applyEnv(s1, env);
+    const [s2, bodyType] = infer(extend(env1, name, generalize(env1, bindType, s1)), body);
+
+    return [compose(s2, s1), bodyType];
+  };
+
+  const inferRec = (env: Context<Scheme>, binds: Pair<Name, Tree>[], body: Tree): Inferred => {
+    const vars = binds.map(([name]): Pair<Name, Type> => [name, fresh()]);
+    const env1 = vars.reduce((acc, [name, type]) => extend(acc, name, mono(type)), env);
+
+    const s1 = binds.reduce((subst, [_, bind], idx) => {
+      const [s2, bindType] = infer(applyEnv(subst, env1), bind);
+      const s3 = compose(s2, subst);
+      const s4 = unifyAt(applySubst(s3, vars[idx][1]), bindType, bind.span);
+      return compose(s4, s3);
+    }, new Map() as Subst);
+
+    const env2 = applyEnv(s1, env);
+    const env3 = vars.reduce(
+      (acc, [name, type]) => extend(acc, name, generalize(env2, applySubst(s1, type), s1)),
+      env2
+    );
+    const [s5, bodyType] = infer(env3, body);
+
+    return [compose(s5, s1), bodyType];
+  };
+
+  const inferIf = (env: Context<Scheme>, cond: Tree, conseq: Tree, alter: Tree): Inferred => {
+    const [s1, condType] = infer(env, cond);
+    const s2 = compose(unifyAt(TyBool, condType, cond.span), s1);
+    const [s3, thenType] = infer(applyEnv(s2, env), conseq);
+    const s4 = compose(s3, s2);
+    const [s5, elseType] = infer(applyEnv(s4, env), alter);
+    const s6 = compose(s5, s4);
+    const s7 = compose(unifyAt(applySubst(s6, thenType), elseType, alter.span), s6);
+
+    return [s7, applySubst(s7, elseType)];
+  };
+
+  const inferTuple = (env: Context<Scheme>, items: Tree[]): Inferred => {
+    const types = items.map(() => fresh());
+    const s1 = inferFields(env, types, items);
+
+    return [s1, applySubst(s1, TyCon(tupleType, types))];
+  };
+
+  // A fresh instance of the constructor's type and field types.
+  const instantiateCtor = (name: Name, arity: number, span: Span): Pair<Type, Type[]> => {
+    const data = owners.get(name);
+    const variant = data?.ctors.find((ctor) => ctor.name === name);
+
+    if (data === undefined || variant === undefined) {
+      return Diagnostic.raise([Diagnostic.error(`Unknown constructor '${name}'`, span)]);
+    }
+
+    if (variant.fields.length !== arity) {
+      const expected = `${variant.fields.length} argument${variant.fields.length === 1 ? "" : "s"}`;
+      const message = `Constructor '${name}' expects ${expected}, but got ${arity}`;
+      return Diagnostic.raise([Diagnostic.error(message, span)]);
+    }
+
+    const subst = new Map(data.params.map((param) => [param, fresh()]));
+    const type = TyCon(
+      data.name,
+      data.params.map((param) => subst.get(param) as Type)
+    );
+
+    return [type, variant.fields.map((field) => applySubst(subst, field))];
+  };
+
+  const inferCon = (env: Context<Scheme>, name: Name, args: Tree[], span: Span): Inferred => {
+    const [type, fields] = instantiateCtor(name, args.length, span);
+    const s1 = inferFields(env, fields, args);
+
+    return [s1, applySubst(s1, type)];
+  };
+
+  const checkPatterns = (subst: Subst, patterns: Pattern[], types: Type[]): Pair<Subst, Pair<Name, Type>[]> => {
+    return patterns.reduce(
+      ([acc, binds], pattern, idx): Pair<Subst, Pair<Name, Type>[]> => {
+        const [next, more] = checkPattern(acc, pattern, types[idx]);
+        return [next, [...binds, ...more]];
+      },
+      [subst, []] as Pair<Subst, Pair<Name, Type>[]>
+    );
+  };
+
+  // Unifies the pattern with the type of the value it matches, and returns the
+  // types of the names it binds.
+  const checkPattern = (subst: Subst, pattern: Pattern, expected: Type): Pair<Subst, Pair<Name, Type>[]> =>
+    match(pattern)({
+      Wild: (): Pair<Subst, Pair<Name, Type>[]> => [subst, []],
+      Bind: ({ name }): Pair<Subst, Pair<Name, Type>[]> => [subst, [[name, expected]]],
+      Lit: ({ value, span }): Pair<Subst, Pair<Name, Type>[]> => {
+        const [_, type] = infer(makeContext(), value);
+        return [compose(unifyAt(applySubst(subst, expected), type, span), subst), []];
+      },
+      Con: ({ name, args, span }) => {
+        const [type, fields] = instantiateCtor(name, args.length, span);
+        const s1 = compose(unifyAt(applySubst(subst, expected), type, span), subst);
+        return checkPatterns(s1, args, fields);
+      },
+      Tuple: ({ items, span }) => {
+        const types = items.map(() => fresh());
+        const s1 = compose(unifyAt(applySubst(subst, expected), TyCon(tupleType, types), span), subst);
+        return checkPatterns(s1, items, types);
+      },
+    });
+
+  const inferMatch = (env: Context<Scheme>, scrut: Tree, arms: Pair<Pattern, Tree>[], span: Span): Inferred => {
+    const [s1, scrutType] = infer(env, scrut);
+    const result = fresh();
+
+    const s2 = arms.reduce((subst, [pattern, body]) => {
+      const [s3, binds] = checkPattern(subst, pattern, scrutType);
+      const scope = binds.reduce(
+        (acc, [name, type]) => extend(acc, name, mono(applySubst(s3, type))),
+        applyEnv(s3, env)
+      );
+      const [s4, bodyType] = infer(scope, body);
+      const s5 = compose(s4, s3);
+      return compose(unifyAt(applySubst(s5, result), bodyType, body.span), s5);
+    }, s1);
+
+    const witness = uncovered(
+      owners,
+      arms.map(([pattern]) => [pattern]),
+      1
+    );
+
+    if (witness !== undefined) {
+      const message = `Non-exhaustive match: the pattern '${witness[0]}' is not covered`;
+      Diagnostic.raise([Diagnostic.error(message, span, "add an arm for it, or a '_' arm")]);
+    }
+
+    return [s2, applySubst(s2, result)];
+  };
+
+  // Field types may only mention the declaration's own parameters and types
+  // declared before it, or the type itself.
+  const checkField = (data: Datatype, type: Type, span: Span): void =>
+    match(type)({
+      Var: ({ name }) => {
+        if (!data.params.includes(name)) {
+          Diagnostic.raise([Diagnostic.error(`Unbound type variable ${name} in '${data.name}'`, span)]);
+        }
+      },
+      Con: ({ name, args }) => {
+        const arity = name === tupleType ? args.length : (primitives.get(name) ?? datatypes.get(name)?.params.length);
+
+        if (arity === undefined) {
+          const candidate = suggest(name, [...primitives.keys(), ...datatypes.keys()]);
+          const hint = candidate === undefined ? undefined : `did you mean '${candidate}'?`;
+          Diagnostic.raise([Diagnostic.error(`Unknown type '${name}'`, span, hint)]);
+        }
+
+        if (arity !== args.length) {
+          const message = `Type '${name}' expects ${arity} argument${arity === 1 ? "" : "s"}, but got ${args.length}`;
+          Diagnostic.raise([Diagnostic.error(message, span)]);
+        }
+
+        args.forEach((arg) => checkField(data, arg, span));
+      },
+      Fun: ({ argm, body }) => {
+        checkField(data, argm, span);
+        checkField(data, body, span);
+      },
+    });
+
+  const inferTypeDef = (
+    env: Context<Scheme>,
+    name: Name,
+    params: Name[],
+    ctors: Variant[],
+    body: Tree,
+    span: Span
+  ): Inferred => {
+    if (primitives.has(name) || datatypes.has(name)) {
+      Diagnostic.raise([Diagnostic.error(`Type '${name}' is already defined`, span)]);
+    }
+
+    const data: Datatype = { name, params, ctors };
+    datatypes.set(name, data);
+
+    ctors.forEach((variant) => {
+      variant.fields.forEach((field) => checkField(data, field, variant.span));
+      owners.set(variant.name, data);
+    });
+
+    return infer(env, body);
+  };
+
+  // Nothing is known about a foreign function beyond its arity, so it takes and
+  // returns anything; the C side checks the tags of what it is given.
+  const inferExtern = (env: Context<Scheme>, name: Name, arity: number, body: Tree): Inferred => {
+    const params = Array.from({ length: arity }, () => fresh());
+    const type = params.reduceRight((acc, param) => TyFun(param, acc), fresh());
+
+    return infer(extend(env, name, generalize(env, type, new Map())), body);
+  };
+
+  const infer = (env: Context<Scheme>, tree: Tree): Inferred =>
+    match(tree)({
+      Num: (): Inferred => [new Map(), TyInt],
+      Float: (): Inferred => [new Map(), TyFloat],
+      Str: (): Inferred => [new Map(), TyStr],
+      Bool: (): Inferred => [new Map(), TyBool],
+      Var: ({ data, span }) => inferVar(env, data, span),
+      Bin: ({ oper, lhs, rhs, span }) => inferBin(env, oper, lhs, rhs, span),
+      Una: ({ oper, argm, span }) => inferUna(env, oper, argm, span),
+      Lam: ({ props, body }) => inferLam(env, props, body),
+      App: ({ func, args }) => inferApp(env, func, args),
+      Let: ({ name, bind, body }) => inferLet(env, name, bind, body),
+      Rec: ({ binds, body }) => inferRec(env, binds, body),
+      If: ({ cond, conseq, alter }) => inferIf(env, cond, conseq, alter),
+      Tuple: ({ items }) => inferTuple(env, items),
+      Con: ({ name, args, span }) => inferCon(env, name, args, span),
+      Match: ({ scrut, arms, span }) => inferMatch(env, scrut, arms, span),
+      TypeDef: ({ name, params, ctors, body, span }) => inferTypeDef(env, name, params, ctors, body, span),
+      Extern: ({ name, arity, body }) => inferExtern(env, name, arity, body),
+    });
+
+  const [s1, type] = infer(makeContext(), tree);
+
+  const subst = pending.reduce((acc, { oper, operand, span }) => {
+    const resolved = applySubst(acc, operand);
+
+    if (resolved.tag === "Var") {
+      return compose(unifyAt(TyInt, resolved, span), acc);
+    }
+
+    checkOverload(oper, resolved, span);
+    return acc;
+  }, s1);
+
+  return applySubst(subst, type);
+};
+
+export { typecheck };
@@ -0,0 +1,497 @@
+import { match } from "./lib/helpers";
+import { Pair } from "./lib/pair";
+import { Error as GenericError } from "./lib/error";
+import { Name, Oper, Prop, showFloat } from "./syntax";
+import {
+  Host,
+  VBool,
+  VCode,
+  VData,
+  VFloat,
+  VInt,
+  VStr,
+  Value,
+  evaluatePrim,
+  expectBool,
+  foreign,
+  notClosure,
+  stdio,
+} from "./interpret";
+import { Expr, Prog } from "./closure";
+import { staticName } from "./passes";
+import { locals } from "./codegen";
+
+// Each instruction is its index in `opcodes` followed by its operands, all
+// plain numbers; floats, strings and names live in the program's constant
+// pool. Every expression leaves one value on the stack.
+const opcodes = [
+  "INT",
+  "FLOAT",
+  "STR",
+  "BOOL",
+  "LOAD",
+  "STORE",
+  "LOAD_ENV",
+  "LOAD_GLOBAL",
+  "MAKE_CLOSURE",
+  "PATCH_ENV",
+  "APPLY",
+  "TAIL_APPLY",
+  "CALL",
+  "PRIM",
+  "JUMP",
+  "JUMP_IF_FALSE",
+  "DATA",
+  "FIELD",
+  "IS",
+  "FAIL",
+  "FOREIGN",
+  "RETURN",
+] as const;
+
+type Opcode = (typeof opcodes)[number];
+
+const operandCounts: Record<Opcode, number> = {
+  INT: 1,
+  FLOAT: 1,
+  STR: 1,
+  BOOL: 1,
+  LOAD: 1,
+  STORE: 1,
+  LOAD_ENV: 1,
+  LOAD_GLOBAL: 1,
+  MAKE_CLOSURE: 2,
+  PATCH_ENV: 2,
+  APPLY: 1,
+  TAIL_APPLY: 1,
+  CALL: 2,
+  PRIM: 1,
+  JUMP: 1,
+  JUMP_IF_FALSE: 1,
+  DATA: 2,
+  FIELD: 1,
+  IS: 1,
+  FAIL: 0,
+  FOREIGN: 2,
+  RETURN: 0,
+};
+
+const primOpers: Oper[] = ["add", "sub", "mul", "div", "lt", "eq", "neg"];
+
+// The code of one Decl, or of the program's main expression. Its parameters
+// take the first local slots, and the names of all slots are kept for the
+// disassembler.
+type Chunk = { name: Name; arity: number; env: Prop; slots: Name[]; code: number[] };
+
+// Statics are the chunks whose closures exist before the program starts, read
+// with LOAD_GLOBAL by their position in `statics`.
+type Bytecode = { chunks: Chunk[]; consts: (number | string)[]; statics: number[]; main: number };
+
+const compileBytecode = (prog: Prog): Bytecode => {
+  const decls = prog.flatMap((topl) => (topl.tag === "Decl" ? [topl] : []));
+  const chunkIds = new Map(decls.map(({ name }, idx) => [name, idx]));
+  const statics = prog.flatMap((topl) => (topl.tag === "Static" ? [topl.prop] : []));
+  const consts: (number | string)[] = [];
+
+  const chunkId = (name: Name): number => {
+    const id = chunkIds.get(name);
+
+    if (id === undefined) {
+      throw new Error(`Unknown code "${name}"`);
+    }
+
+    return id;
+  };
+
+  const constant = (value: number | string): number => {
+    const idx = consts.findIndex((other) => Object.is(other, value));
+    return idx >= 0 ? idx : consts.push(value) - 1;
+  };
+
+  const compileChunk = (name: Name, env: Prop, props: Prop[], body: Expr): Chunk => {
+    const slots = [...new Set([...props, ...locals(body)])];
+    const code: number[] = [];
+
+    const emit = (opcode: Opcode, ...operands: number[]): number => {
+      code.push(opcodes.indexOf(opcode), ...operands);
+      return code.length - 1;
+    };
+
+    const slot = (name: Name): number => {
+      const idx = slots.indexOf(name);
+      return idx >= 0 ? idx : slots.push(name) - 1;
+    };
+
+    const load = (data: Name) => {
+      if (slots.includes(data)) {
+        emit("LOAD", slots.indexOf(data));
+        return;
+      }
+
+      const global = statics.findIndex((prop) => staticName(prop) === data);
+
+      if (global < 0) {
+        throw new Error(`Unbound name "${data}" in ${name}`);
+      }
+
+      emit("LOAD_GLOBAL", global);
+    };
+
+    const compileAll = (exprs: Expr[]) => exprs.forEach((expr) => compile(expr));
+
+    const compileRec = (binds: Pair<Name, Expr>[], body: Expr) => {
+      const names = binds.map(([name]) => name);
+
+      binds.forEach(([name, bind]) => {
+        compile(bind);
+        emit("STORE", slot(name));
+      });
+
+      binds.forEach(([name, bind]) => {
+        if (bind.tag !== "Cls") {
+          throw new Error(`Recursive binding "${name}" must be a closure`);
+        }
+
+        bind.body.forEach((item, idx) => {
+          if (item.tag === "Ref" && names.includes(item.data)) {
+            emit("LOAD", slot(item.data));
+            emit("PATCH_ENV", slot(name), idx);
+          }
+        });
+      });
+
+      compile(body);
+    };
+
+    // Jumps are emitted with a placeholder target, patched once it is known.
+    const compileIf = (cond: Expr, conseq: Expr, alter: Expr) => {
+      compile(cond);
+      const skip = emit("JUMP_IF_FALSE", -1);
+      compile(conseq);
+      const done = emit("JUMP", -1);
+      code[skip] = code.length;
+      compile(alter);
+      code[done] = code.length;
+    };
+
+    const compile = (expr: Expr): void =>
+      match(expr)({
+        Num: ({ data }) => void emit("INT", data),
+        Float: ({ data }) => void emit("FLOAT", constant(data)),
+        Str: ({ data }) => void emit("STR", constant(data)),
+        Bool: ({ data }) => void emit("BOOL", data ? 1 : 0),
+        Ref: ({ data }) => load(data),
+        Idx: ({ data, idx }) => {
+          if (data !== env) {
+            throw new Error(`Environment "${data}" is not the one of ${name}`);
+          }
+
+          emit("LOAD_ENV", idx);
+        },
+        App: ({ func, args }) => {
+          load(func);
+          compileAll(args);
+          emit("APPLY", args.length);
+        },
+        Tail: ({ func, args }) => {
+          load(func);
+          compileAll(args);
+          emit("TAIL_APPLY", args.length);
+        },
+        Call: ({ prop, func, args }) => {
+          load(func);
+          compileAll(args);
+          emit("CALL", chunkId(prop), args.length);
+        },
+        Prim: ({ oper, args }) => {
+          compileAll(args);
+          emit("PRIM", primOpers.indexOf(oper));
+        },
+        Cls: ({ prop, body }) => {
+          compileAll(body);
+          emit("MAKE_CLOSURE", chunkId(prop), body.length);
+        },
+        Let: ({ name, bind, body }) => {
+          compile(bind);
+          emit("STORE", slot(name));
+          compile(body);
+        },
+        Rec: ({ binds, body }) => compileRec(binds, body),
+        If: ({ cond, conseq, alter }) => compileIf(cond, conseq, alter),
+        Data: ({ ctor, args }) => {
+          compileAll(args);
+          emit("DATA", ctor === null ? -1 : constant(ctor), args.length);
+        },
+        Field: ({ base, idx }) => {
+          compile(base);
+          emit("FIELD", idx);
+        },
+        Is: ({ base, ctor }) => {
+          compile(base);
+          emit("IS", constant(ctor));
+        },
+        Fail: () => void emit("FAIL"),
+        Foreign: ({ symbol, args }) => {
+          compileAll(args);
+          emit("FOREIGN", constant(symbol), args.length);
+        },
+      });
+
+    compile(body);
+    emit("RETURN");
+
+    return { name, arity: props.length, env, slots, code };
+  };
+
+  const chunks = decls.map(({ name, env, props, body }) => compileChunk(name, env, props, body));
+  const main = prog.flatMap((topl) => (topl.tag === "Main" ? [compileChunk("main", "", [], topl.expr)] : []));
+
+  return { chunks: [...chunks, ...main], consts, statics: statics.map((prop) => chunkId(prop)), main: chunks.length };
+};
+
+const showOperands = (bytecode: Bytecode, chunk: Chunk, opcode: Opcode, operands: number[]): string => {
+  const { chunks, consts, statics } = bytecode;
+  const [first, second] = operands;
+
+  switch (opcode) {
+    case "FLOAT":
+      return showFloat(consts[first] as number);
+    case "STR":
+      return JSON.stringify(consts[first]);
+    case "BOOL":
+      return first === 1 ? "true" : "false";
+    case "LOAD":
+    case "STORE":
+      return `${first} ; ${chunk.slots[first]}`;
+    case "LOAD_ENV":
+      return `${first} ; ${chunk.env}[${first}]`;
+    case "LOAD_GLOBAL":
+      return `${first} ; ${staticName(chunks[statics[first]].name)}`;
+    case "MAKE_CLOSURE":
+    case "CALL":
+      return `${chunks[first].name} ${second}`;
+    case "PATCH_ENV":
+      return `${first} ${second} ; ${chunk.slots[first]}[${second}]`;
+    case "PRIM":
+      return primOpers[first];
+    case "JUMP":
+    case "JUMP_IF_FALSE":
+      return `${first}`.padStart(4, "0");
+    case "DATA":
+      return `${first < 0 ? "()" : consts[first]} ${second}`;
+    case "IS":
+      return `${consts[first]}`;
+    case "FOREIGN":
+      return `${consts[first]} ${second}`;
+    default:
+      return operands.join(" ");
+  }
+};
+
+// One line per instruction, prefixed with its offset in the chunk.
+const disassemble = (bytecode: Bytecode): string => {
+  const showChunk = (chunk: Chunk): string => {
+    const lines: string[] = [];
+
+    for (let pc = 0; pc < chunk.code.length;) {
+      const opcode = opcodes[chunk.code[pc]];
+      const operands = chunk.code.slice(pc + 1, pc + 1 + operandCounts[opcode]);
+      const shown = showOperands(bytecode, chunk, opcode, operands);
+
+      lines.push(`  ${`${pc}`.padStart(4, "0")}  ${opcode}${shown === "" ? "" : ` ${shown}`}`);
+      pc += 1 + operandCounts[opcode];
+    }
+
+    return [`${chunk.name}/${chunk.arity}:`, ...lines].join("\n");
+  };
+
+  return bytecode.chunks.map((chunk) => showChunk(chunk)).join("\n\n");
+};
+
+// Virtual machine
+
+type Frame = { chunk: Chunk; pc: number; locals: Value[]; env: Value[]; pending: Value[] };
+type Execution = { value: Value; counts: Map<Opcode, number> };
+
+// Runs the program on an explicit stack of frames, so that neither deep
+// recursion nor a chain of tail calls grows the JavaScript stack. A frame's
+// `pending` arguments are those of an over-application, applied to what it
+// returns. Values, primitives and foreign functions are the interpreter's, so
+// the two print the same results and report the same errors.
+const execute = (bytecode: Bytecode, host: Host = stdio): Execution => {
+  const { chunks, consts, statics } = bytecode;
+  const globals = statics.map((chunk) => VCode(chunk, chunks[chunk].arity, [], []));
+  const tally = opcodes.map(() => 0);
+  const frames: Frame[] = [];
+  const stack: Value[] = [];
+
+  const enter = (chunk: number, env: Value[], args: Value[], pending: Value[]) => {
+    frames.push({ chunk: chunks[chunk], pc: 0, locals: [...args], env, pending });
+  };
+
+  // Either the result of a partial application, or undefined once a frame
+  // has been entered for the call.
+  const invoke = (callee: Value, given: Value[], pending: Value[]): Value | undefined => {
+    if (callee.tag !== "Code") {
+      return notClosure(callee);
+    }
+
+    const args = [...callee.args, ...given];
+
+    if (args.length < callee.arity) {
+      const partial = VCode(callee.chunk, callee.arity, callee.env, args);
+      return pending.length === 0 ? partial : invoke(partial, pending, []);
+    }
+
+    enter(callee.chunk, callee.env, args.slice(0, callee.arity), [...args.slice(callee.arity), ...pending]);
+    return undefined;
+  };
+
+  const popAll = (count: number): Value[] => (count === 0 ? [] : stack.splice(-count));
+  const pop = (): Value => stack.pop() as Value;
+
+  enter(bytecode.main, [], [], []);
+
+  for (;;) {
+    const frame = frames[frames.length - 1];
+    const { code } = frame.chunk;
+    const { pc } = frame;
+    const opcode = opcodes[code[pc]];
+    const first = code[pc + 1];
+    const second = code[pc + 2];
+
+    tally[code[pc]]++;
+    frame.pc += 1 + operandCounts[opcode];
+
+    switch (opcode) {
+      case "INT":
+        stack.push(VInt(first));
+        break;
+      case "FLOAT":
+        stack.push(VFloat(consts[first] as number));
+        break;
+      case "STR":
+        stack.push(VStr(consts[first] as string));
+        break;
+      case "BOOL":
+        stack.push(VBool(first === 1));
+        break;
+      case "LOAD":
+        stack.push(frame.locals[first]);
+        break;
+      case "STORE":
+        frame.locals[first] = pop();
+        break;
+      case "LOAD_ENV":
+        stack.push(frame.env[first]);
+        break;
+      case "LOAD_GLOBAL":
+        stack.push(globals[first]);
+        break;
+      case "MAKE_CLOSURE":
+        stack.push(VCode(first, chunks[first].arity, popAll(second), []));
+        break;
+      case "PATCH_ENV": {
+        const target = frame.locals[first];
+
+        if (target.tag === "Code") {
+          target.env[second] = pop();
+        }
+        break;
+      }
+      case "APPLY": {
+        const args = popAll(first);
+        const result = invoke(pop(), args, []);
+
+        if (result !== undefined) {
+          stack.push(result);
+        }
+        break;
+      }
+      case "CALL": {
+        const args = popAll(second);
+        const callee = pop();
+        enter(first, callee.tag === "Code" ? callee.env : [], args, []);
+        break;
+      }
+      case "TAIL_APPLY":
+      case "RETURN": {
+        const args = opcode === "TAIL_APPLY" ? popAll(first) : [];
+        const value = pop();
+        const { pending } = frames.pop() as Frame;
+        const result =
+          opcode === "TAIL_APPLY"
+            ? invoke(value, args, pending)
+            : pending.length === 0
+              ? value
+              : invoke(value, pending, []);
+
+        if (result !== undefined && frames.length === 0) {
+          const counts = opcodes.flatMap((opcode, idx): Pair<Opcode, number>[] =>
+            tally[idx] > 0 ? [[opcode, tally[idx]]] : []
+          );
+          return { value: result, counts: new Map(counts) };
+        }
+
+        if (result !== undefined) {
+          stack.push(result);
+        }
+        break;
+      }
+      case "PRIM": {
+        const oper = primOpers[first];
+        stack.push(evaluatePrim(oper, popAll(oper === "neg" ? 1 : 2)));
+        break;
+      }
+      case "JUMP":
+        frame.pc = first;
+        break;
+      case "JUMP_IF_FALSE":
+        if (!expectBool(pop())) {
+          frame.pc = first;
+        }
+        break;
+      case "DATA":
+        stack.push(VData(first < 0 ? null : (consts[first] as string), popAll(second)));
+        break;
+      case "FIELD": {
+        const base = pop();
+        stack.push(base.tag === "Data" ? base.fields[first] : GenericError.raise("type error: expected data"));
+        break;
+      }
+      case "IS": {
+        const base = pop();
+        stack.push(VBool(base.tag === "Data" && base.ctor === consts[first]));
+        break;
+      }
+      case "FAIL":
+        return GenericError.raise("runtime error: no pattern matched");
+      case "FOREIGN": {
+        const symbol = consts[first] as string;
+        const call = foreign[symbol];
+
+        if (call === undefined) {
+          return GenericError.raise(`runtime error: extern "${symbol}" is not available in the virtual machine`);
+        }
+
+        stack.push(call(host, popAll(second)));
+        break;
+      }
+    }
+  }
+};
+
+// The instructions run, most frequent first.
+const showCounts = (counts: Map<Opcode, number>): string => {
+  const total = [...counts.values()].reduce((acc, count) => acc + count, 0);
+  const rows = [...counts].sort(([_, lhs], [__, rhs]) => rhs - lhs);
+  const width = `${total}`.length;
+
+  return [
+    `${`${total}`.padStart(width)}  instructions`,
+    ...rows.map(([opcode, count]) => `${`${count}`.padStart(width)}  ${opcode}`),
+  ].join("\n");
+};
+
+export type { Bytecode };
+export { compileBytecode, disassemble, execute, showCounts };
@@ -0,0 +1,75 @@
+import { promises } from "fs";
+import path from "path";
+
+import { Diagnostic } from "../src/lib/diagnostic";
+import { parser, scanner } from "../src/parser";
+import { differential, parseArgs } from "../src/cli";
+
+// Every target must agree with the interpreter on examples/, and on the loops
+// in tests/trampoline, which are too deep to run without --trampoline.
+const corpora = [
+  ["--target=c", "examples"],
+  ["--target=js", "examples"],
+  ["--target=vm", "examples"],
+  ["--target=c", "--trampoline", "tests/trampoline"],
+  ["--target=js", "--trampoline", "tests/trampoline"],
+  ["--target=vm", "--trampoline", "tests/trampoline"],
+];
+
+const recoveryDir = path.join(__dirname, "recovery");
+
+// The diagnostics a file reports, as `line:column message`, each of which its
+// `// expect` lines must list in order.
+const parseErrors = (source: string, file: string): string[] => {
+  try {
+    parser(scanner(source, file));
+    return [];
+  } catch (error) {
+    if (!Diagnostic.isCompileError(error)) {
+      throw error;
+    }
+
+    return error.diagnostics.map(({ span, message }) => `${span.start.line}:${span.start.column} ${message}`);
+  }
+};
+
+const recovery = async (): Promise<number> => {
+  const files = (await promises.readdir(recoveryDir)).filter((entry) => entry.endsWith(".wc")).sort();
+  let failures = 0;
+
+  for (const entry of files) {
+    const file = path.join(recoveryDir, entry);
+    const source = await promises.readFile(file, "utf8");
+    const expected = [...source.matchAll(/^\/\/ expect (.*)$/gm)].map(([_, line]) => line);
+    const actual = parseErrors(source, file);
+
+    if (expected.join("\n") === actual.join("\n")) {
+      console.log(`ok    ${file}`);
+      continue;
+    }
+
+    failures++;
+    console.log(`FAIL  ${file}`);
+    console.log(`  expected: ${JSON.stringify(expected)}`);
+    console.log(`  reported: ${JSON.stringify(actual)}`);
+  }
+
+  console.log(`\n${files.length} programs, ${failures} mismatches`);
+  return failures;
+};
+
+const main = async () => {
+  let failures = 0;
+
+  for (const args of corpora) {
+    console.log(`\n--diff ${args.join(" ")}`);
+    failures += await differential(parseArgs(["--diff", ...args]));
+  }
+
+  console.log("\nparser recovery");
+  failures += await recovery();
+
+  process.exitCode = failures > 0 ? 1 : 0;
+};
+
+main();